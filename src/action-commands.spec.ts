@@ -0,0 +1,74 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { getActionChannel, getActionCommand, getRawCommand, getTransitionCommand, toFadeSpeed } from './action-commands';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Action commands', () => {
+    it('should use the default channel', () => {
+        expect(getActionCommand('toggle', undefined, '')).to.equal('Power TOGGLE');
+        expect(getActionCommand('toggle', { channel: 2 }, '')).to.equal('Power2 TOGGLE');
+        expect(getActionChannel({ channel: 3 }, '1')).to.equal('3');
+        expect(getActionChannel({}, '1')).to.equal('1');
+    });
+});
+
+describe('Action commands', () => {
+    it('should build the commands of the actions', () => {
+        expect(getActionCommand('restart', undefined, '')).to.equal('Restart 1');
+        expect(getActionCommand('blink', { count: 3 }, '')).to.equal('Backlog BlinkCount 3; Power BLINK');
+        // The adapter switches off after onFor itself
+        expect(getActionCommand('onFor', { duration: 30, channel: 1 }, '')).to.undefined;
+        expect(getActionCommand('identify', undefined, '')).to.match(/^Backlog (LedPower 2; Delay 5; ){5}LedPower 2$/);
+        expect(getActionCommand('unknown', undefined, '')).to.undefined;
+    });
+});
+
+describe('Action commands', () => {
+    it('should send a single raw command as is', () => {
+        expect(getRawCommand({ command: ' Power ON ' })).to.equal('Power ON');
+        expect(getRawCommand({ command: ['Status 0'] })).to.equal('Status 0');
+        expect(getRawCommand({ command: ' ' })).to.undefined;
+        expect(getRawCommand({ command: [' ', ''] })).to.undefined;
+        expect(getRawCommand(undefined)).to.undefined;
+    });
+});
+
+describe('Action commands', () => {
+    it('should not split a single command at semicolons', () => {
+        const rule = 'Rule1 ON Power1#State DO Backlog Power2 ON; Delay 10 ENDON';
+        expect(getRawCommand({ command: rule })).to.equal(rule);
+        expect(getRawCommand({ command: ' Backlog Power ON; Dimmer 50 ' })).to.equal('Backlog Power ON; Dimmer 50');
+    });
+});
+
+describe('Action commands', () => {
+    it('should combine multiple raw commands into a backlog', () => {
+        expect(getRawCommand({ command: ['Power ON', 'Dimmer 50'] })).to.equal('Backlog Power ON; Dimmer 50');
+        expect(getRawCommand({ command: ['Backlog Power ON', 'Dimmer 50'] })).to.equal('Backlog Power ON; Dimmer 50');
+    });
+});
+
+describe('Action commands', () => {
+    it('should convert durations to fade speeds', () => {
+        expect(toFadeSpeed(0)).to.equal(1);
+        expect(toFadeSpeed(5)).to.equal(10);
+        expect(toFadeSpeed(60)).to.equal(40);
+    });
+});
+
+describe('Action commands', () => {
+    it('should build the transition commands', () => {
+        expect(getTransitionCommand({ brightness: 30, duration: 10 })).to.equal('Backlog Fade2 1; Speed2 20; Dimmer 30');
+        expect(getTransitionCommand({ color: '#00ff00', brightness: 50, duration: 2 })).to.equal('Backlog Fade2 1; Speed2 4; HSBColor 120,100,50');
+        expect(getTransitionCommand({ colorTemperature: 2500, brightness: 101, duration: 1 }, { min: 153, max: 370 }))
+            .to.equal('Backlog Fade2 1; Speed2 2; CT 370; Fade2 1; Speed2 2; Dimmer 100');
+        expect(getTransitionCommand({ duration: 1 })).to.undefined;
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { hexToHsb } from './color-conversion';
+import { CtRange, DEFAULT_CT_RANGE, kelvinToTasmota } from './ct-conversion';
+
+export function toFadeSpeed(seconds: number) {
+    // Speed uses steps of 0.5 seconds from 1 (fast) to 40 (slow)
+    return Math.max(1, Math.min(40, Math.round(seconds * 2)));
+}
+
+export function getActionChannel(input: any, defaultChannel: string): string {
+    return input?.channel !== undefined ? `${input.channel}` : defaultChannel;
+}
+
+export function getActionCommand(name: string, input: any, defaultChannel: string): string | undefined {
+    const channel = getActionChannel(input, defaultChannel);
+
+    switch (name) {
+        case 'toggle':
+            return `Power${channel} TOGGLE`;
+        case 'blink':
+            return `Backlog BlinkCount ${input?.count || 10}; Power${channel} BLINK`;
+        case 'identify':
+            // Toggling the led an even number of times restores its state
+            return `Backlog ${new Array(6).fill('LedPower 2').join('; Delay 5; ')}`;
+        case 'restart':
+            return 'Restart 1';
+    }
+
+    return undefined;
+}
+
+export function getRawCommand(input: any): string | undefined {
+    const command = input?.command;
+
+    // A single command is sent as is, semicolons may be part of it (e.g. in rules)
+    if (!Array.isArray(command)) {
+        const trimmedCommand = `${command ?? ''}`.trim();
+        return trimmedCommand.length > 0 ? trimmedCommand : undefined;
+    }
+
+    const trimmedCommands = command
+        .map(command => `${command}`.trim())
+        .filter(command => command.length > 0);
+
+    if (trimmedCommands.length == 0) {
+        return undefined;
+    }
+
+    if (trimmedCommands.length == 1) {
+        return trimmedCommands[0];
+    }
+
+    if (/^backlog\s/i.test(trimmedCommands[0])) {
+        return trimmedCommands.join('; ');
+    }
+
+    return `Backlog ${trimmedCommands.join('; ')}`;
+}
+
+export function getTransitionCommand(input: any, ctRange: CtRange = DEFAULT_CT_RANGE): string | undefined {
+    const {
+        color,
+        colorTemperature,
+        duration
+    } = input || {};
+
+    const brightness = typeof input?.brightness === 'number' ? Math.max(0, Math.min(100, Math.round(input.brightness))) : undefined;
+    const hsb = typeof color === 'string' ? hexToHsb(color) : undefined;
+    const targets: string[] = [];
+
+    if (hsb) {
+        // A single command moves color and brightness at once
+        targets.push(`HSBColor ${hsb.hue},${hsb.saturation},${brightness ?? hsb.brightness}`);
+    } else {
+        if (typeof colorTemperature === 'number') {
+            targets.push(`CT ${kelvinToTasmota(colorTemperature, ctRange)}`);
+        }
+
+        if (brightness !== undefined) {
+            targets.push(`Dimmer ${brightness}`);
+        }
+    }
+
+    if (targets.length == 0) {
+        return undefined;
+    }
+
+    const speed = toFadeSpeed(duration || 0);
+
+    // Fade2 and Speed2 only apply to the next command and leave the configured fade untouched
+    return `Backlog ${targets.map(target => `Fade2 1; Speed2 ${speed}; ${target}`).join('; ')}`;
+}
@@ -6,41 +6,92 @@
 
 'use strict';
 
-import fetch from 'node-fetch';
-import { parse } from './table-parser';
+import fetch, { Response } from 'node-fetch';
+import { Agent } from 'http';
+import { AuthenticationError, HttpError, isRetryable, UnreachableError } from './errors';
+import { debug, redact } from './logger';
 
-export interface CommandResult {
-    Command: string,
-    WARNING: string
+export interface RequestOptions {
+    timeoutMs: number,
+    retries: number
 }
 
-export function authConfig(password?: string) {
+const requestOptions: RequestOptions = {
+    timeoutMs: 5000,
+    retries: 2
+};
+
+export function configureRequests(options: Partial<RequestOptions>) {
+    const {
+        timeoutMs,
+        retries
+    } = options;
+
+    if (typeof timeoutMs === 'number' && timeoutMs > 0) {
+        requestOptions.timeoutMs = timeoutMs;
+    }
+
+    if (typeof retries === 'number' && retries >= 0) {
+        requestOptions.retries = retries;
+    }
+}
+
+export function getRequestOptions(): RequestOptions {
+    return requestOptions;
+}
+
+export const DEFAULT_USERNAME = 'admin';
+
+export function authConfig(username = DEFAULT_USERNAME, password?: string) {
+    if (!password) {
+        return {
+            headers: {}
+        };
+    }
+
     return {
         headers: {
-            'Authorization': `Basic ${Buffer.from(`admin:${password}`).toString('base64')}`
+            'Authorization': `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
         }
     };
 }
 
-export async function getData(host: string, password?: string) {
-    const response = await fetch(`http://${host}/?m=1`, authConfig(password));
+export async function request(host: string, url: string, headers: {}, agent?: Agent): Promise<Response> {
+    let response: Response;
 
-    if (response.status != 200) {
-        throw `Tasmota responded with ${response.status}`;
+    try {
+        response = await fetch(url, {
+            headers,
+            agent,
+            timeout: requestOptions.timeoutMs
+        });
+    } catch (e) {
+        // The error message contains the url including the credentials
+        const reason = e?.type === 'request-timeout' ? `no response within ${requestOptions.timeoutMs} ms` : redact(`${e?.message || e}`);
+        throw new UnreachableError(host, reason);
     }
 
-    const stats = await response.text();
-    return parse(stats);
-}
+    if (response.status == 401) {
+        throw new AuthenticationError(host);
+    }
 
-export async function getStatus(host: string, password: string, name: string) {
-    return executeCommand(host, password, `${name}`);
-}
+    if (response.status != 200) {
+        throw new HttpError(host, response.status, response.statusText);
+    }
 
-export async function setStatus(host: string, password: string, name: string, status: string) {
-    return executeCommand(host, password, `${name} ${status}`);
+    return response;
 }
 
-export async function executeCommand(host: string, password: string, command: string) {
-    return fetch(`http://${host}/cm?user=admin&password=${encodeURIComponent(password)}&cmnd=${encodeURIComponent(command)}`, authConfig(password));
+export async function withRetries<T>(description: string, operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (e) {
+            if (attempt >= requestOptions.retries || !isRetryable(e)) {
+                throw e;
+            }
+
+            debug(`Retrying ${description} after: ${e}`);
+        }
+    }
 }
@@ -0,0 +1,23 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device } from 'gateway-addon';
+import { AvailabilityListener } from './poll-scheduler';
+
+export function availabilityListener(device: Device): AvailabilityListener {
+    return available => {
+        device.connectedNotify(available);
+
+        if (available) {
+            // Values which did not change while the device was offline are not notified by the poll
+            for (const property of device.properties.values()) {
+                device.notifyPropertyChanged(property);
+            }
+        }
+    };
+}
@@ -7,37 +7,35 @@
 'use strict';
 
 import { Device } from 'gateway-addon';
-import { CommandResult, getStatus, setStatus } from './api';
-import { debug } from './logger';
+import { BrightnessControl } from './light-controls';
+import { TasmotaClient } from './tasmota-client';
 import { WritableProperty } from './writable-property';
 
 export class BrightnessProperty extends WritableProperty<number> {
-    constructor(device: Device, host: string, password: string) {
-        super(device, 'brightness', {
+    private control: BrightnessControl;
+
+    /**
+     * @param index the index of the dimmer or channel if the light is split
+     * @param command Dimmer for split color and white channels (SetOption37), Channel for split channels (SetOption68)
+     */
+    constructor(device: Device, client: TasmotaClient, index?: number, command: 'Dimmer' | 'Channel' = 'Dimmer') {
+        const control = new BrightnessControl(client, index, command);
+
+        super(device, index ? `brightness${index}` : 'brightness', {
             '@type': 'BrightnessProperty',
             type: 'integer',
-            title: 'Brightness',
+            title: index ? `Brightness ${index}` : 'Brightness',
             description: 'The brightness of the light'
-        }, async (value) => {
-            const result = await setStatus(host, password, 'Dimmer', `${value}`);
-            if (result.status != 200) {
-                debug(`Could not set status: ${result.statusText} (${result.status})`);
-            }
-            else {
-                const json: CommandResult = await result.json();
-                if (json.WARNING) {
-                    if (json.WARNING) {
-                        debug(`Could not set status: ${json.WARNING}`);
-                    }
-                    if (json.Command) {
-                        debug(`Could not set status: ${json.Command}`);
-                    }
-                }
-            }
-        }, async () => {
-            const response = await getStatus(host, password, 'Dimmer');
-            const result = await response.json();
-            this.update(result.Dimmer);
-        });
+        }, value => control.set(value));
+
+        this.control = control;
+    }
+
+    public onState(state: any) {
+        const value = this.control.readState(state);
+
+        if (value !== undefined) {
+            this.update(value);
+        }
     }
 }
@@ -0,0 +1,118 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { detectLight, getCapabilities, LightMode, lightInfoFromDiscovery, lightInfoFromType } from './capabilities';
+import { LightType, parseDiscoveryConfig } from './discovery';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Capabilities', () => {
+    it('should treat all channels of a plug as relays', () => {
+        expect(getCapabilities([1, 2], lightInfoFromType(LightType.None))).to.deep.equal({
+            relays: [1, 2],
+            lights: [],
+            lightType: LightType.None,
+            lightMode: LightMode.Combined
+        });
+    });
+});
+
+describe('Capabilities', () => {
+    it('should assign the last channel to the light', () => {
+        expect(getCapabilities([1], lightInfoFromType(LightType.Rgbcct))).to.deep.equal({
+            relays: [],
+            lights: [1],
+            lightType: LightType.Rgbcct,
+            lightMode: LightMode.Combined
+        });
+
+        expect(getCapabilities([1, 2], lightInfoFromType(LightType.Dimmer)).relays).to.deep.equal([1]);
+        expect(getCapabilities([1, 2], lightInfoFromType(LightType.Dimmer)).lights).to.deep.equal([2]);
+        expect(getCapabilities([], lightInfoFromType(LightType.Dimmer)).lights).to.deep.equal([1]);
+    });
+});
+
+describe('Capabilities', () => {
+    it('should assign a channel to every split light', () => {
+        const channels = getCapabilities([1, 2, 3], {
+            lightType: LightType.Dimmer,
+            lightMode: LightMode.Channels,
+            channelCount: 2
+        });
+
+        expect(channels.relays).to.deep.equal([1]);
+        expect(channels.lights).to.deep.equal([2, 3]);
+
+        const rgbCw = getCapabilities([], lightInfoFromType(LightType.Rgbcct, LightMode.RgbCw));
+        expect(rgbCw.lights).to.deep.equal([1, 2]);
+    });
+});
+
+describe('Capabilities', () => {
+    it('should use the light channels from the discovery', () => {
+        const capabilities = getCapabilities([1], lightInfoFromType(LightType.Dimmer), [2, 3]);
+
+        expect(capabilities.relays).to.deep.equal([1]);
+        expect(capabilities.lights).to.deep.equal([2, 3]);
+
+        expect(getCapabilities([1], lightInfoFromType(LightType.Dimmer), []).lights).to.deep.equal([2]);
+    });
+});
+
+describe('Capabilities', () => {
+    it('should detect the light type from the state', () => {
+        expect(detectLight({ POWER: 'ON' }).lightType).to.equal(LightType.None);
+        expect(detectLight({ POWER: 'ON', Dimmer: 50, Channel: [50] }).lightType).to.equal(LightType.Dimmer);
+        expect(detectLight({ Dimmer: 50, CT: 300, Channel: [25, 25] }).lightType).to.equal(LightType.ColorTemperature);
+        expect(detectLight({ Dimmer: 50, HSBColor: '0,100,50', Channel: [50, 0, 0] }).lightType).to.equal(LightType.Rgb);
+        expect(detectLight({ Dimmer: 50, HSBColor: '0,100,50', White: 0, Channel: [50, 0, 0, 0] }).lightType).to.equal(LightType.Rgbw);
+
+        expect(detectLight({ Dimmer: 50, HSBColor: '0,100,50', CT: 153, Channel: [50, 0, 0, 0, 0] })).to.deep.equal({
+            lightType: LightType.Rgbcct,
+            lightMode: LightMode.Combined,
+            channelCount: 5
+        });
+    });
+});
+
+describe('Capabilities', () => {
+    it('should detect split lights', () => {
+        expect(detectLight({ POWER1: 'ON', POWER2: 'OFF', Dimmer: 50, Channel: [50, 20, 0] })).to.deep.equal({
+            lightType: LightType.Dimmer,
+            lightMode: LightMode.Channels,
+            channelCount: 3
+        });
+
+        const rgbCw = detectLight({ Dimmer1: 50, Dimmer2: 20, HSBColor: '0,100,50', CT: 153, Channel: [50, 0, 0, 10, 10] });
+        expect(rgbCw.lightType).to.equal(LightType.Rgbcct);
+        expect(rgbCw.lightMode).to.equal(LightMode.RgbCw);
+    });
+});
+
+describe('Capabilities', () => {
+    it('should derive the light mode from the discovery', () => {
+        const config = {
+            mac: 'A4CF12A1B2C3',
+            ip: '192.168.1.42',
+            t: 'tasmota_A1B2C3'
+        };
+
+        const dimmers = parseDiscoveryConfig({ ...config, rl: [1, 2, 2, 2, 0, 0, 0, 0], lt_st: 1 });
+        expect(lightInfoFromDiscovery(dimmers!)).to.deep.equal({
+            lightType: LightType.Dimmer,
+            lightMode: LightMode.Channels,
+            channelCount: 3
+        });
+
+        const rgbCw = parseDiscoveryConfig({ ...config, rl: [2, 2, 0, 0, 0, 0, 0, 0], lt_st: 5 });
+        expect(lightInfoFromDiscovery(rgbCw!).lightMode).to.equal(LightMode.RgbCw);
+
+        const bulb = parseDiscoveryConfig({ ...config, rl: [2, 0, 0, 0, 0, 0, 0, 0], lt_st: 4 });
+        expect(lightInfoFromDiscovery(bulb!).lightMode).to.equal(LightMode.Combined);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { CtRange } from './ct-conversion';
+import { DiscoveryConfig, getLightChannels, LightType } from './discovery';
+
+export enum LightMode {
+    // All channels form a single light
+    Combined = 'combined',
+    // Every channel is a separate dimmer (SetOption68)
+    Channels = 'channels',
+    // The color and the white channels are separate lights (SetOption37 128)
+    RgbCw = 'rgbCw'
+}
+
+export interface LightInfo {
+    lightType: LightType,
+    lightMode: LightMode,
+    // The number of pwm channels of the light
+    channelCount: number
+}
+
+export interface Capabilities {
+    // The power channels which switch relays
+    relays: number[],
+    // The power channels which switch lights
+    lights: number[],
+    lightType: LightType,
+    lightMode: LightMode,
+    // The color temperature range of the light if it is known
+    ctRange?: CtRange
+}
+
+const CHANNEL_COUNTS: { [type: number]: number } = {
+    [LightType.None]: 0,
+    [LightType.Dimmer]: 1,
+    [LightType.ColorTemperature]: 2,
+    [LightType.Rgb]: 3,
+    [LightType.Rgbw]: 4,
+    [LightType.Rgbcct]: 5
+};
+
+export function lightInfoFromType(lightType: LightType, lightMode = LightMode.Combined): LightInfo {
+    return {
+        lightType,
+        lightMode,
+        channelCount: CHANNEL_COUNTS[lightType] ?? 0
+    };
+}
+
+/**
+ * The discovery only reports a power channel per light, multiple lights with color are split into color and white.
+ */
+export function lightInfoFromDiscovery(config: DiscoveryConfig): LightInfo {
+    const lightChannels = getLightChannels(config);
+
+    if (lightChannels.length < 2) {
+        return lightInfoFromType(config.lightType);
+    }
+
+    if (config.lightType >= LightType.Rgb) {
+        return lightInfoFromType(config.lightType, LightMode.RgbCw);
+    }
+
+    return {
+        lightType: config.lightType,
+        lightMode: LightMode.Channels,
+        channelCount: lightChannels.length
+    };
+}
+
+/**
+ * Detects the light from the StatusSTS of the Status 11 command.
+ */
+export function detectLight(state: any): LightInfo {
+    const channels: any[] = Array.isArray(state?.Channel) ? state.Channel : [];
+
+    if (channels.length == 0 && state?.Dimmer === undefined && state?.Dimmer1 === undefined) {
+        return lightInfoFromType(LightType.None);
+    }
+
+    const hasColor = state.HSBColor !== undefined;
+    const hasCt = state.CT !== undefined;
+    const hasWhite = state.White !== undefined;
+    let lightType: LightType;
+
+    if (hasColor) {
+        if (hasCt) {
+            lightType = LightType.Rgbcct;
+        } else {
+            lightType = hasWhite || channels.length == 4 ? LightType.Rgbw : LightType.Rgb;
+        }
+    } else {
+        lightType = hasCt ? LightType.ColorTemperature : LightType.Dimmer;
+    }
+
+    let lightMode = LightMode.Combined;
+
+    if (hasColor && state.Dimmer1 !== undefined && state.Dimmer2 !== undefined) {
+        lightMode = LightMode.RgbCw;
+    } else if (!hasColor && !hasCt && channels.length > 1) {
+        // Multiple channels without color or color temperature are only reported if they are split
+        lightMode = LightMode.Channels;
+    }
+
+    return {
+        lightType,
+        lightMode,
+        channelCount: channels.length || CHANNEL_COUNTS[lightType]
+    };
+}
+
+function getLightCount(light: LightInfo): number {
+    switch (light.lightMode) {
+        case LightMode.Channels:
+            return light.channelCount;
+        case LightMode.RgbCw:
+            return 2;
+        default:
+            return 1;
+    }
+}
+
+/**
+ * Splits the power channels of a Tasmota into relays and lights.
+ * @param channels the detected power channels
+ * @param light the light of the device
+ * @param lightChannels the power channels of the lights if they are known (e.g. from the discovery)
+ */
+export function getCapabilities(channels: number[], light: LightInfo, lightChannels?: number[]): Capabilities {
+    const {
+        lightType,
+        lightMode
+    } = light;
+
+    if (lightType == LightType.None) {
+        return {
+            relays: channels,
+            lights: [],
+            lightType,
+            lightMode
+        };
+    }
+
+    if (lightChannels && lightChannels.length > 0) {
+        return {
+            relays: channels.filter(channel => lightChannels.indexOf(channel) < 0),
+            lights: lightChannels,
+            lightType,
+            lightMode
+        };
+    }
+
+    const count = getLightCount(light);
+
+    if (lightChannels || channels.length < count) {
+        // The lights come after the relays
+        const first = Math.max(0, ...channels) + 1;
+
+        return {
+            relays: channels,
+            lights: Array.from({ length: count }, (_, index) => first + index),
+            lightType,
+            lightMode
+        };
+    }
+
+    // Tasmota assigns the last power channels to the lights
+    return {
+        relays: channels.slice(0, -count),
+        lights: channels.slice(-count),
+        lightType,
+        lightMode
+    };
+}
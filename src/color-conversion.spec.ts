@@ -0,0 +1,57 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { hexToHsb, hsbToHex, isWhiteMode, parseHsbColor } from './color-conversion';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Color conversion', () => {
+    it('should convert hex colors to hsb', () => {
+        expect(hexToHsb('#ff0000')).to.deep.equal({ hue: 0, saturation: 100, brightness: 100 });
+        expect(hexToHsb('#00ff00')).to.deep.equal({ hue: 120, saturation: 100, brightness: 100 });
+        expect(hexToHsb('0000FF')).to.deep.equal({ hue: 240, saturation: 100, brightness: 100 });
+        expect(hexToHsb('#808080')).to.deep.equal({ hue: 0, saturation: 0, brightness: 50 });
+        expect(hexToHsb('#000000')).to.deep.equal({ hue: 0, saturation: 0, brightness: 0 });
+        expect(hexToHsb('red')).to.be.undefined;
+    });
+});
+
+describe('Color conversion', () => {
+    it('should convert hsb colors to hex', () => {
+        expect(hsbToHex({ hue: 0, saturation: 100, brightness: 100 })).to.equal('#ff0000');
+        expect(hsbToHex({ hue: 120, saturation: 100, brightness: 100 })).to.equal('#00ff00');
+        expect(hsbToHex({ hue: 300, saturation: 50, brightness: 100 })).to.equal('#ff80ff');
+        expect(hsbToHex({ hue: 0, saturation: 0, brightness: 100 })).to.equal('#ffffff');
+    });
+});
+
+describe('Color conversion', () => {
+    it('should round trip saturated colors', () => {
+        for (const color of ['#ff0000', '#ff8000', '#00ffff', '#8000ff', '#ff0080']) {
+            expect(hsbToHex(hexToHsb(color)!)).to.equal(color);
+        }
+    });
+});
+
+describe('Color conversion', () => {
+    it('should parse the hsb color of the state', () => {
+        expect(parseHsbColor('120,100,50')).to.deep.equal({ hue: 120, saturation: 100, brightness: 50 });
+        expect(parseHsbColor('120,100')).to.be.undefined;
+        expect(parseHsbColor(undefined)).to.be.undefined;
+    });
+});
+
+describe('Color conversion', () => {
+    it('should detect the white mode', () => {
+        expect(isWhiteMode('000000FF')).to.be.true;
+        expect(isWhiteMode('0000000080')).to.be.true;
+        expect(isWhiteMode('FF000000')).to.be.false;
+        expect(isWhiteMode('00000000')).to.be.false;
+        expect(isWhiteMode('000000')).to.be.false;
+    });
+});
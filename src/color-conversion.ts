@@ -0,0 +1,97 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+export interface HsbColor {
+    // 0 - 360
+    hue: number,
+    // 0 - 100
+    saturation: number,
+    // 0 - 100
+    brightness: number
+}
+
+export function hexToHsb(hex: string): HsbColor | undefined {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+
+    if (!match) {
+        return undefined;
+    }
+
+    const [r, g, b] = match.slice(1).map(channel => parseInt(channel, 16) / 255);
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+    let hue = 0;
+
+    if (delta > 0) {
+        switch (max) {
+            case r:
+                hue = ((g - b) / delta + 6) % 6;
+                break;
+            case g:
+                hue = (b - r) / delta + 2;
+                break;
+            default:
+                hue = (r - g) / delta + 4;
+                break;
+        }
+    }
+
+    return {
+        hue: Math.round(hue * 60) % 360,
+        saturation: max > 0 ? Math.round(delta / max * 100) : 0,
+        brightness: Math.round(max * 100)
+    };
+}
+
+export function hsbToHex(color: HsbColor): string {
+    const hue = ((color.hue % 360) + 360) % 360 / 60;
+    const saturation = color.saturation / 100;
+    const brightness = color.brightness / 100;
+
+    const channel = (n: number) => {
+        const k = (n + hue) % 6;
+        const value = brightness * (1 - saturation * Math.max(0, Math.min(k, 4 - k, 1)));
+        return Math.round(value * 255).toString(16).padStart(2, '0');
+    };
+
+    return `#${channel(5)}${channel(3)}${channel(1)}`;
+}
+
+/**
+ * Parses the HSBColor of the state (e.g. 120,100,50).
+ */
+export function parseHsbColor(value: any): HsbColor | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const parts = value.split(',').map(part => parseInt(part, 10));
+
+    if (parts.length != 3 || parts.some(part => isNaN(part))) {
+        return undefined;
+    }
+
+    const [hue, saturation, brightness] = parts;
+
+    return {
+        hue,
+        saturation,
+        brightness
+    };
+}
+
+/**
+ * A light is in white mode if only its white channels are lit (e.g. 000000FF or 0000000080).
+ */
+export function isWhiteMode(color: any): boolean {
+    if (typeof color !== 'string' || color.length <= 6) {
+        return false;
+    }
+
+    return /^0{6}/.test(color) && !/^0+$/.test(color);
+}
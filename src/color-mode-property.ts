@@ -7,11 +7,10 @@
 'use strict';
 
 import { Device } from 'gateway-addon';
-import { getStatus } from './api';
 import { PollingProperty } from './polling-property';
 
 export class ColorModeProperty extends PollingProperty<'color' | 'temperature'> {
-    constructor(device: Device, host: string, password: string) {
+    constructor(device: Device) {
         super(device, 'colorMode', {
             '@type': 'ColorModeProperty',
             label: 'Color Mode',
@@ -21,10 +20,11 @@ export class ColorModeProperty extends PollingProperty<'color' | 'temperature'>
                 'temperature',
             ],
             readOnly: true,
-        }, async () => {
-            const response = await getStatus(host, password, 'Color');
-            const result = await response.json();
-            const color: string = result.Color;
+        });
+    }
+    public onState(state: any) {
+        const color: string | undefined = state?.Color;
+        if (color !== undefined) {
             const rgb = color.substring(0, 6);
             if (rgb != '000000') {
                 this.update('color');
@@ -32,6 +32,6 @@ export class ColorModeProperty extends PollingProperty<'color' | 'temperature'>
             else {
                 this.update('temperature');
             }
-        });
+        }
     }
 }
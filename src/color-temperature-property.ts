@@ -7,46 +7,30 @@
 'use strict';
 
 import { Device } from 'gateway-addon';
-import { CommandResult, getStatus, setStatus } from './api';
-import { kelvinToTasmota, tasmotaToKelvin } from './ct-conversion';
-import { debug } from './logger';
+import { CtRange, kelvinToTasmota, tasmotaToKelvin } from './ct-conversion';
+import { TasmotaClient } from './tasmota-client';
 import { WritableProperty } from './writable-property';
 
 export class ColorTemperatureProperty extends WritableProperty<number> {
-    constructor(device: Device, host: string, password: string) {
+    constructor(device: Device, client: TasmotaClient, range: CtRange) {
         super(device, 'colorTemperature', {
             '@type': 'ColorTemperatureProperty',
             type: 'integer',
             title: 'Color Temperature',
             description: 'The color temperature of the light',
-            minimum: 2700,
-            maximum: 6500
+            unit: 'kelvin',
+            // The warmest color has the most mireds
+            minimum: tasmotaToKelvin(range.max),
+            maximum: tasmotaToKelvin(range.min)
         },
             async value => {
-                const result = await setStatus(host, password, 'CT', `${kelvinToTasmota(value)}`);
-
-                if (result.status != 200) {
-                    debug(`Could not set status: ${result.statusText} (${result.status})`);
-                } else {
-                    const json: CommandResult = await result.json();
-
-                    if (json.WARNING) {
-                        if (json.WARNING) {
-                            debug(`Could not set status: ${json.WARNING}`);
-                        }
-
-                        if (json.Command) {
-                            debug(`Could not set status: ${json.Command}`);
-                        }
-                    }
-                }
-            },
-            async () => {
-                const response = await getStatus(host, password, 'CT');
-                const result = await response.json();
-                if (result) {
-                    this.update(tasmotaToKelvin(result?.CT));
-                }
+                await client.ct(kelvinToTasmota(value, range), range);
             });
     }
+
+    public onState(state: any) {
+        if (typeof state?.CT === 'number') {
+            this.update(tasmotaToKelvin(state.CT));
+        }
+    }
 }
@@ -0,0 +1,69 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Database } from 'gateway-addon';
+import { debug } from './logger';
+
+const DEFAULT_KEY = 'default';
+
+/**
+ * Keeps the passwords in a separate entry of the gateway database so that they don't show up in the settings.
+ */
+export class CredentialStore {
+    private database: Database;
+    private passwords: { [key: string]: string } = {};
+
+    constructor(packageName: string) {
+        this.database = new Database(`${packageName}-credentials`);
+    }
+
+    public async load() {
+        await this.database.open();
+        const config = await this.database.loadConfig();
+        this.passwords = config?.passwords || {};
+    }
+
+    public getDefaultPassword(): string | undefined {
+        return this.passwords[DEFAULT_KEY];
+    }
+
+    public getPassword(id: string): string | undefined {
+        return this.passwords[id];
+    }
+
+    /**
+     * Moves all passwords from the given config into the store.
+     * Returns true if the config has been changed.
+     */
+    public async takeOver(config: any): Promise<boolean> {
+        let changed = false;
+
+        if (config.password) {
+            this.passwords[DEFAULT_KEY] = config.password;
+            delete config.password;
+            changed = true;
+        }
+
+        for (const device of config.devices || []) {
+            if (device.id && device.password) {
+                debug(`Moving the password of ${device.hostname} to the database`);
+                this.passwords[device.id] = device.password;
+                delete device.password;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.database.saveConfig({
+                passwords: this.passwords
+            });
+        }
+
+        return changed;
+    }
+}
@@ -6,21 +6,36 @@
 
 'use strict';
 
-import { kelvinToTasmota, tasmotaToKelvin } from './ct-conversion';
+import { ctRangeFromKelvin, DEFAULT_CT_RANGE, kelvinToTasmota, parseCtRange, tasmotaToKelvin } from './ct-conversion';
 import { expect } from 'chai';
 import 'mocha';
 
 describe('Kelvin to Tasmota', () => {
-    it('2700 Kelvin should translate to 500 in Tasmota range', () => {
+    it('2700 Kelvin should translate to 370 in Tasmota range', () => {
         const result = kelvinToTasmota(2700);
-        expect(result).to.equal(500);
+        expect(result).to.equal(370);
     });
 });
 
 describe('Kelvin to Tasmota', () => {
-    it('6500 Kelvin should translate to 153 in Tasmota range', () => {
+    it('6500 Kelvin should translate to 154 in Tasmota range', () => {
         const result = kelvinToTasmota(6500);
-        expect(result).to.equal(153);
+        expect(result).to.equal(154);
+    });
+});
+
+describe('Kelvin to Tasmota', () => {
+    it('2000 Kelvin should translate to 500 in Tasmota range', () => {
+        const result = kelvinToTasmota(2000);
+        expect(result).to.equal(500);
+    });
+});
+
+describe('Kelvin to Tasmota', () => {
+    it('should clamp the value to the range of the light', () => {
+        expect(kelvinToTasmota(1500)).to.equal(500);
+        expect(kelvinToTasmota(10000)).to.equal(153);
+        expect(kelvinToTasmota(2200, { min: 153, max: 400 })).to.equal(400);
     });
 });
 
@@ -39,22 +54,67 @@ describe('Kelvin to Tasmota', () => {
 });
 
 describe('Tasmota to Kelvin', () => {
-    it('500 in Tasmota range should translate to 2700 Kelvin', () => {
+    it('500 in Tasmota range should translate to 2000 Kelvin', () => {
         const result = tasmotaToKelvin(500);
-        expect(result).to.equal(2700);
+        expect(result).to.equal(2000);
     });
 });
 
 describe('Tasmota to Kelvin', () => {
-    it('153 in Tasmota range should translate to 6500 Kelvin', () => {
+    it('153 in Tasmota range should translate to 6536 Kelvin', () => {
         const result = tasmotaToKelvin(153);
-        expect(result).to.equal(6500);
+        expect(result).to.equal(6536);
     });
 });
 
 describe('Tasmota to Kelvin', () => {
-    it('null should translate to 8175 Kelvin', () => {
+    it('null should translate to NaN', () => {
         const result = tasmotaToKelvin(<any>null);
-        expect(result).to.equal(8175);
+        expect(result).to.NaN;
+    });
+});
+
+describe('Color temperature conversion', () => {
+    it('should round trip every Tasmota value', () => {
+        for (let mireds = DEFAULT_CT_RANGE.min; mireds <= DEFAULT_CT_RANGE.max; mireds++) {
+            expect(kelvinToTasmota(tasmotaToKelvin(mireds))).to.equal(mireds);
+        }
+    });
+});
+
+describe('Color temperature conversion', () => {
+    it('should be stable after one round trip from Kelvin', () => {
+        for (let kelvin = 2000; kelvin <= 6500; kelvin += 50) {
+            const mireds = kelvinToTasmota(kelvin);
+            const roundTripped = tasmotaToKelvin(mireds);
+            expect(kelvinToTasmota(roundTripped)).to.equal(mireds);
+            expect(Math.abs(roundTripped - kelvin)).to.be.at.most(kelvin * kelvin / 1000000);
+        }
+    });
+});
+
+describe('Color temperature range', () => {
+    it('should parse the range of the light', () => {
+        expect(parseCtRange('153,500')).to.deep.equal({ min: 153, max: 500 });
+        expect(parseCtRange([200, 454])).to.deep.equal({ min: 200, max: 454 });
+        expect(parseCtRange('500,153')).to.be.undefined;
+        expect(parseCtRange(undefined)).to.be.undefined;
+    });
+});
+
+describe('Color temperature range', () => {
+    it('should convert the configured limits', () => {
+        expect(ctRangeFromKelvin(2200, 6500)).to.deep.equal({ min: 154, max: 455 });
+        expect(ctRangeFromKelvin(2200)).to.deep.equal({ min: 153, max: 455 });
+        expect(ctRangeFromKelvin()).to.deep.equal(DEFAULT_CT_RANGE);
+    });
+});
+
+describe('Color temperature range', () => {
+    it('should ignore limits which do not fit the range of the light', () => {
+        expect(ctRangeFromKelvin(7000)).to.deep.equal(DEFAULT_CT_RANGE);
+        expect(ctRangeFromKelvin(6000, 3000)).to.deep.equal(DEFAULT_CT_RANGE);
+        expect(ctRangeFromKelvin(1000, 6500)).to.deep.equal(DEFAULT_CT_RANGE);
+        expect(ctRangeFromKelvin(2700, 10000, { min: 153, max: 370 })).to.deep.equal({ min: 153, max: 370 });
     });
 });
@@ -6,16 +6,69 @@
 
 'use strict';
 
-export function kelvinToTasmota(value: number) {
-    // Convert from Kelvin to the Tasmota range of 153 - 500 before setting value
-    const ctKelvin = Math.max(2700, Math.min(6500, value));
-    const ctTasmota = Math.round((ctKelvin - 1025) / 10.95);
-    return 500 - ctTasmota + 153;
+export interface CtRange {
+    // The coldest color temperature in mireds
+    min: number,
+    // The warmest color temperature in mireds
+    max: number
+}
+
+export const DEFAULT_CT_RANGE: CtRange = {
+    min: 153,
+    max: 500
+};
+
+export function kelvinToTasmota(value: number, range = DEFAULT_CT_RANGE) {
+    // Tasmota expects the color temperature in mireds (micro reciprocal degrees)
+    const mireds = Math.round(1000000 / value);
+    return Math.max(range.min, Math.min(range.max, mireds));
 }
 
 export function tasmotaToKelvin(value: number) {
-    // Convert from the Tasmota range of 153 - 500 to Kelvin before updating value
-    const ctTasmota: number = ((500 - value) || 0) + 153;
-    const ctKelvin: number = Math.round(10.95 * ctTasmota + 1025);
-    return ctKelvin;
+    if (!(value > 0)) {
+        return NaN;
+    }
+
+    return Math.round(1000000 / value);
+}
+
+/**
+ * Parses the result of the CTRange command (e.g. 153,500).
+ */
+export function parseCtRange(value: any): CtRange | undefined {
+    const parts = typeof value === 'string' ? value.split(',').map(part => parseInt(part, 10)) : value;
+
+    if (!Array.isArray(parts) || parts.length != 2) {
+        return undefined;
+    }
+
+    const [min, max] = parts;
+
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min <= 0 || min >= max) {
+        return undefined;
+    }
+
+    return {
+        min,
+        max
+    };
+}
+
+/**
+ * Builds a range from the given limits in Kelvin, missing limits are taken from the fallback.
+ * Limits which are inverted or exceed the fallback are ignored.
+ */
+export function ctRangeFromKelvin(minKelvin?: number, maxKelvin?: number, fallback = DEFAULT_CT_RANGE): CtRange {
+    const range = {
+        min: maxKelvin ? Math.round(1000000 / maxKelvin) : fallback.min,
+        max: minKelvin ? Math.round(1000000 / minKelvin) : fallback.max
+    };
+
+    if (range.min >= range.max || range.min < fallback.min || range.max > fallback.max) {
+        console.warn(`Ignoring the color temperature range from ${minKelvin ?? '-'} K to ${maxKelvin ?? '-'} K, `
+            + `the light supports ${tasmotaToKelvin(fallback.max)} K to ${tasmotaToKelvin(fallback.min)} K`);
+        return fallback;
+    }
+
+    return range;
 }
@@ -0,0 +1,374 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Action, Device, Event } from 'gateway-addon';
+import { CommandRejectedError, InvalidValueError, logError } from './errors';
+import { debug } from './logger';
+import { getActionChannel, getActionCommand, getRawCommand, getTransitionCommand } from './action-commands';
+import { CtRange, tasmotaToKelvin } from './ct-conversion';
+import { TasmotaClient } from './tasmota-client';
+import { MAX_ON_DURATION, PowerTimer } from './power-timer';
+import { calibrate, ENERGY_COUNTER_NAMES, resetCounters, summarizeReadings } from './energy-calibration';
+import { Reading, ReadingType } from './telemetry';
+
+export function addDeviceActions(device: Device, channels: number[] = []) {
+    const channelInput = channels.length > 0 ? {
+        channel: {
+            type: 'integer',
+            title: 'Channel',
+            enum: channels
+        }
+    } : {};
+
+    device.addAction('toggle', {
+        '@type': 'ToggleAction',
+        title: 'Toggle',
+        description: 'Toggle the power',
+        input: {
+            type: 'object',
+            properties: {
+                ...channelInput
+            }
+        }
+    });
+
+    device.addAction('blink', {
+        title: 'Blink',
+        description: 'Blink the power',
+        input: {
+            type: 'object',
+            properties: {
+                ...channelInput,
+                count: {
+                    type: 'integer',
+                    title: 'Count',
+                    minimum: 1,
+                    maximum: 32000
+                }
+            }
+        }
+    });
+
+    device.addAction('onFor', {
+        title: 'On for',
+        description: 'Switch the power on for the given duration',
+        input: {
+            type: 'object',
+            required: [
+                'duration'
+            ],
+            properties: {
+                ...channelInput,
+                duration: {
+                    type: 'number',
+                    title: 'Duration',
+                    unit: 'second',
+                    minimum: 0.1,
+                    maximum: MAX_ON_DURATION
+                }
+            }
+        }
+    });
+
+    device.addAction('identify', {
+        title: 'Identify',
+        description: 'Flash the status led of the device'
+    });
+
+    device.addAction('restart', {
+        title: 'Restart',
+        description: 'Restart the device'
+    });
+}
+
+export function addTransitionAction(device: Device, hasColor: boolean, ctRange?: CtRange) {
+    const colorInput = hasColor ? {
+        color: {
+            type: 'string',
+            title: 'Color'
+        }
+    } : {};
+
+    const colorTemperatureInput = ctRange ? {
+        colorTemperature: {
+            type: 'integer',
+            title: 'Color Temperature',
+            unit: 'kelvin',
+            minimum: tasmotaToKelvin(ctRange.max),
+            maximum: tasmotaToKelvin(ctRange.min)
+        }
+    } : {};
+
+    device.addAction('transition', {
+        title: 'Transition',
+        description: 'Fade the light to the given values',
+        input: {
+            type: 'object',
+            required: [
+                'duration'
+            ],
+            properties: {
+                brightness: {
+                    type: 'integer',
+                    title: 'Brightness',
+                    unit: 'percent',
+                    minimum: 0,
+                    maximum: 100
+                },
+                ...colorInput,
+                ...colorTemperatureInput,
+                duration: {
+                    type: 'number',
+                    title: 'Duration',
+                    unit: 'second',
+                    minimum: 0.5,
+                    maximum: 20
+                }
+            }
+        }
+    });
+}
+
+const CALIBRATION_INPUTS: { [type: string]: any } = {
+    power: {
+        type: 'number',
+        title: 'Power',
+        unit: 'watt',
+        minimum: 0
+    },
+    voltage: {
+        type: 'number',
+        title: 'Voltage',
+        unit: 'volt',
+        minimum: 0
+    },
+    current: {
+        type: 'number',
+        title: 'Current',
+        unit: 'ampere',
+        minimum: 0
+    }
+};
+
+/**
+ * @param types the energy readings of the device, only those can be calibrated
+ */
+export function addEnergyActions(device: Device, types: ReadingType[]) {
+    const calibrationInput: { [name: string]: any } = {};
+
+    for (const type of types) {
+        if (CALIBRATION_INPUTS[type]) {
+            calibrationInput[type] = CALIBRATION_INPUTS[type];
+        }
+    }
+
+    if (Object.keys(calibrationInput).length > 0) {
+        device.addAction('calibrate', {
+            title: 'Calibrate',
+            description: 'Calibrate the energy meter with the values of a known resistive load',
+            input: {
+                type: 'object',
+                properties: calibrationInput
+            }
+        });
+
+        device.addEvent('energyCalibrated', {
+            description: 'The readings of the energy meter after the calibration',
+            type: 'object'
+        });
+    }
+
+    device.addAction('resetEnergy', {
+        title: 'Reset energy',
+        description: 'Reset the energy counters',
+        input: {
+            type: 'object',
+            properties: {
+                today: {
+                    type: 'boolean',
+                    title: 'Today'
+                },
+                yesterday: {
+                    type: 'boolean',
+                    title: 'Yesterday'
+                },
+                total: {
+                    type: 'boolean',
+                    title: 'Total'
+                }
+            }
+        }
+    });
+
+    device.addEvent('energyReset', {
+        description: 'The readings of the energy meter after the reset',
+        type: 'object'
+    });
+}
+
+export function addCommandAction(device: Device) {
+    device.addAction('sendCommand', {
+        title: 'Send command',
+        description: 'Send a console command or a list of commands as backlog',
+        input: {
+            type: 'object',
+            required: [
+                'command'
+            ],
+            properties: {
+                command: {
+                    title: 'Command',
+                    // A list of commands is sent as a backlog
+                    oneOf: [
+                        {
+                            type: 'string'
+                        },
+                        {
+                            type: 'array',
+                            items: {
+                                type: 'string'
+                            }
+                        }
+                    ]
+                }
+            }
+        }
+    });
+
+    device.addEvent('commandResult', {
+        description: 'The response to a console command',
+        type: 'object'
+    });
+
+    device.addEvent('commandFailed', {
+        description: 'The device rejected a console command',
+        type: 'object'
+    });
+}
+
+/**
+ * Validates and performs an action between its start and finish, failures are logged and rethrown.
+ */
+async function runAction<T>(action: Action, perform: () => Promise<T>): Promise<T> {
+    action.start();
+
+    try {
+        return await perform();
+    } catch (e) {
+        logError(`Could not perform action ${action.name}`, e);
+        throw e;
+    } finally {
+        action.finish();
+    }
+}
+
+async function sendCommand(client: TasmotaClient, action: Action, command: string): Promise<any> {
+    debug(`Executing ${command} for action ${action.name}`);
+    return client.send(command);
+}
+
+export async function executeAction(client: TasmotaClient, action: Action, command: string): Promise<any> {
+    return runAction(action, () => sendCommand(client, action, command));
+}
+
+export async function performDeviceAction(client: TasmotaClient, action: Action, powerTimer: PowerTimer, defaultChannel = ''): Promise<boolean> {
+    if (action.name === 'onFor') {
+        const channel = getActionChannel(action.input, defaultChannel);
+        await runAction(action, () => powerTimer.switchOnFor(channel, action.input?.duration || 0));
+        return true;
+    }
+
+    const command = getActionCommand(action.name, action.input, defaultChannel);
+
+    if (!command) {
+        return false;
+    }
+
+    await executeAction(client, action, command);
+
+    return true;
+}
+
+export async function performTransitionAction(client: TasmotaClient, action: Action, ctRange?: CtRange): Promise<boolean> {
+    if (action.name !== 'transition') {
+        return false;
+    }
+
+    await runAction(action, () => {
+        const command = getTransitionCommand(action.input, ctRange);
+
+        if (!command) {
+            throw new InvalidValueError(client.host, 'transition', JSON.stringify(action.input ?? {}));
+        }
+
+        return sendCommand(client, action, command);
+    });
+
+    return true;
+}
+
+/**
+ * Returns the readings of the energy meter after the action or undefined if it is not an energy action.
+ */
+export async function performEnergyAction(device: Device, client: TasmotaClient, action: Action): Promise<Reading[] | undefined> {
+    let event: string;
+    let perform: () => Promise<Reading[]>;
+
+    switch (action.name) {
+        case 'calibrate':
+            event = 'energyCalibrated';
+            perform = () => calibrate(client, action.input || {});
+            break;
+        case 'resetEnergy':
+            event = 'energyReset';
+            perform = () => resetCounters(client, ENERGY_COUNTER_NAMES.filter(counter => action.input?.[counter] === true));
+            break;
+        default:
+            return undefined;
+    }
+
+    const readings = await runAction(action, perform);
+    device.eventNotify(new Event(device, event, summarizeReadings(readings)));
+
+    return readings;
+}
+
+export async function performCommandAction(device: Device, client: TasmotaClient, action: Action): Promise<boolean> {
+    if (action.name !== 'sendCommand') {
+        return false;
+    }
+
+    const command = getRawCommand(action.input);
+    let result: any;
+
+    try {
+        result = await runAction(action, () => {
+            if (!command) {
+                throw new InvalidValueError(client.host, 'command', action.input?.command);
+            }
+
+            return sendCommand(client, action, command);
+        });
+    } catch (e) {
+        if (e instanceof CommandRejectedError) {
+            device.eventNotify(new Event(device, 'commandFailed', {
+                command,
+                result: e.result
+            }));
+        }
+
+        throw e;
+    }
+
+    device.eventNotify(new Event(device, 'commandResult', {
+        command,
+        result
+    }));
+
+    return true;
+}
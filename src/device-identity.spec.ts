@@ -0,0 +1,50 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { deviceIdFromMac, normalizeMac, parseStatusNet, shouldUpdateHost } from './device-identity';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Device identity', () => {
+    it('should normalize mac addresses', () => {
+        expect(normalizeMac('a4:cf:12:34:56:7b')).to.equal('A4CF1234567B');
+        expect(normalizeMac('A4CF1234567B')).to.equal('A4CF1234567B');
+        expect(normalizeMac('A4:CF:12')).to.be.undefined;
+        expect(normalizeMac(42)).to.be.undefined;
+        expect(deviceIdFromMac('A4CF1234567B')).to.equal('tasmota-a4cf1234567b');
+    });
+});
+
+describe('Device identity', () => {
+    it('should parse the network status', () => {
+        const json = {
+            Hostname: 'tasmota-5678',
+            IPAddress: '192.168.0.42',
+            Gateway: '192.168.0.1',
+            Mac: 'A4:CF:12:34:56:78'
+        };
+
+        expect(parseStatusNet(json)).to.deep.equal({
+            mac: 'A4CF12345678',
+            ip: '192.168.0.42',
+            hostname: 'tasmota-5678'
+        });
+
+        expect(parseStatusNet({})).to.be.undefined;
+        expect(parseStatusNet(undefined)).to.be.undefined;
+    });
+});
+
+describe('Device identity', () => {
+    it('should only move devices which are known by ip address', () => {
+        expect(shouldUpdateHost('192.168.0.42', '192.168.0.43')).to.be.true;
+        expect(shouldUpdateHost('192.168.0.42:8080', '192.168.0.42:80')).to.be.true;
+        expect(shouldUpdateHost('192.168.0.42', '192.168.0.42:80')).to.be.false;
+        expect(shouldUpdateHost('plug.local', '192.168.0.43')).to.be.false;
+    });
+});
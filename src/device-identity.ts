@@ -0,0 +1,70 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { isIPv4 } from 'net';
+
+export interface NetworkStatus {
+    mac: string,
+    ip?: string,
+    hostname?: string
+}
+
+/**
+ * Normalizes a mac address to the format of the Tasmota discovery (e.g. A4CF12345678).
+ * Returns undefined if the value is not a mac address.
+ */
+export function normalizeMac(mac: any): string | undefined {
+    if (typeof mac !== 'string') {
+        return undefined;
+    }
+
+    const normalized = mac.replace(/[^0-9a-f]/gi, '').toUpperCase();
+
+    return normalized.length == 12 ? normalized : undefined;
+}
+
+export function deviceIdFromMac(mac: string): string {
+    return `tasmota-${mac.toLowerCase()}`;
+}
+
+/**
+ * Parses the StatusNET object of the Status 5 command.
+ */
+export function parseStatusNet(json: any): NetworkStatus | undefined {
+    const mac = normalizeMac(json?.Mac);
+
+    if (!mac) {
+        return undefined;
+    }
+
+    return {
+        mac,
+        ip: typeof json.IPAddress === 'string' ? json.IPAddress : undefined,
+        hostname: typeof json.Hostname === 'string' ? json.Hostname : undefined
+    };
+}
+
+function normalizeHost(host: string): string {
+    return host.toLowerCase().replace(/\.?(:80)?$/, '');
+}
+
+/**
+ * Decides whether a known device which shows up at another address should be moved there.
+ * Hostnames stay valid if the address of the device changes, ip addresses do not.
+ * @param current the host the device is currently using
+ * @param next the host the device has been found at
+ */
+export function shouldUpdateHost(current: string, next: string): boolean {
+    const currentHost = normalizeHost(current);
+
+    if (currentHost === normalizeHost(next)) {
+        return false;
+    }
+
+    return isIPv4(currentHost.split(':')[0]);
+}
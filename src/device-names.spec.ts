@@ -0,0 +1,65 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { DeviceTitles, parseDeviceNames } from './device-names';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Device names', () => {
+    it('should parse the status and the command results', () => {
+        expect(parseDeviceNames({ DeviceName: 'Kitchen', FriendlyName: ['Kettle', 'Toaster'] })).to.deep.equal({
+            deviceName: 'Kitchen',
+            friendlyNames: ['Kettle', 'Toaster']
+        });
+
+        const result = parseDeviceNames({ FriendlyName2: 'Lamp' });
+        expect(result.deviceName).to.be.undefined;
+        expect(result.friendlyNames[0]).to.be.undefined;
+        expect(result.friendlyNames[1]).to.equal('Lamp');
+
+        expect(parseDeviceNames({ POWER: 'ON' }).friendlyNames).to.be.empty;
+    });
+});
+
+describe('Device names', () => {
+    it('should ignore the default names', () => {
+        const titles = new DeviceTitles('tasmota-1234');
+        titles.update(parseDeviceNames({ DeviceName: 'Tasmota', FriendlyName: ['Tasmota', 'Tasmota2'] }));
+
+        expect(titles.getTitle()).to.equal('tasmota-1234');
+        expect(titles.getChannelTitle(1)).to.equal('Channel 1');
+        expect(titles.getChannelTitle(2)).to.equal('Channel 2');
+        expect(titles.getChannelTitle(2, 'Light')).to.equal('Light');
+    });
+});
+
+describe('Device names', () => {
+    it('should prefer the title from the config', () => {
+        const titles = new DeviceTitles('tasmota-1234', 'Hallway');
+        titles.update(parseDeviceNames({ DeviceName: 'Kitchen', FriendlyName: ['Kettle'] }));
+
+        expect(titles.getTitle()).to.equal('Hallway');
+        expect(titles.getChannelTitle(1)).to.equal('Kettle');
+    });
+});
+
+describe('Device names', () => {
+    it('should notify renames', () => {
+        const titles = new DeviceTitles('tasmota-1234');
+        let notifications = 0;
+        titles.addListener(() => notifications++);
+
+        expect(titles.update(parseDeviceNames({ DeviceName: 'Kitchen', FriendlyName: ['Kettle'] }))).to.be.true;
+        expect(titles.update(parseDeviceNames({ DeviceName: 'Kitchen' }))).to.be.false;
+        expect(titles.update(parseDeviceNames({ FriendlyName1: 'Toaster' }))).to.be.true;
+
+        expect(notifications).to.equal(2);
+        expect(titles.getTitle()).to.equal('Kitchen');
+        expect(titles.getChannelTitle(1)).to.equal('Toaster');
+    });
+});
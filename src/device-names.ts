@@ -0,0 +1,127 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+// The name of a device which has never been renamed
+export const DEFAULT_NAME = 'Tasmota';
+
+const MAX_FRIENDLY_NAMES = 8;
+
+export interface DeviceNames {
+    deviceName?: string,
+    // Indexed by channel - 1, unknown names are undefined
+    friendlyNames: (string | undefined)[]
+}
+
+function isName(name: any): name is string {
+    return typeof name === 'string' && name.trim().length > 0;
+}
+
+/**
+ * Parses the names from the Status object of the Status command
+ * or from the result of the DeviceName and FriendlyName commands.
+ */
+export function parseDeviceNames(json: any): DeviceNames {
+    const friendlyNames: (string | undefined)[] = [];
+
+    if (Array.isArray(json?.FriendlyName)) {
+        friendlyNames.push(...json.FriendlyName.map((name: any) => isName(name) ? name : undefined));
+    }
+
+    for (let i = 1; i <= MAX_FRIENDLY_NAMES; i++) {
+        const name = json?.[`FriendlyName${i}`];
+
+        if (isName(name)) {
+            friendlyNames[i - 1] = name;
+        }
+    }
+
+    return {
+        deviceName: isName(json?.DeviceName) ? json.DeviceName : undefined,
+        friendlyNames
+    };
+}
+
+/**
+ * Keeps track of the names of a Tasmota and notifies all of its devices if they change.
+ */
+export class DeviceTitles {
+    private names: DeviceNames = {
+        friendlyNames: []
+    };
+
+    private listeners: (() => void)[] = [];
+
+    /**
+     * @param fallback the title to use if the device has not been renamed (usually the hostname)
+     * @param title the title from the config which takes precedence over the names of the device
+     */
+    constructor(private fallback: string, private title?: string) {
+    }
+
+    public addListener(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    public getTitle(): string {
+        if (this.title) {
+            return this.title;
+        }
+
+        const {
+            deviceName,
+            friendlyNames: [firstName]
+        } = this.names;
+
+        for (const name of [deviceName, firstName]) {
+            if (name && name !== DEFAULT_NAME) {
+                return name;
+            }
+        }
+
+        return this.fallback;
+    }
+
+    public getChannelTitle(channel: number, fallback = `Channel ${channel}`): string {
+        const name = this.names.friendlyNames[channel - 1];
+
+        // Tasmota names additional channels after the first one (e.g. Tasmota2)
+        if (name && name !== DEFAULT_NAME && name !== `${DEFAULT_NAME}${channel}`) {
+            return name;
+        }
+
+        return fallback;
+    }
+
+    /**
+     * Merges the given names into the known ones.
+     * Returns true and notifies the listeners if any name has changed.
+     */
+    public update(names: DeviceNames): boolean {
+        let changed = false;
+
+        if (names.deviceName && names.deviceName !== this.names.deviceName) {
+            this.names.deviceName = names.deviceName;
+            changed = true;
+        }
+
+        names.friendlyNames.forEach((name, index) => {
+            if (name && name !== this.names.friendlyNames[index]) {
+                this.names.friendlyNames[index] = name;
+                changed = true;
+            }
+        });
+
+        if (changed) {
+            for (const listener of this.listeners) {
+                listener();
+            }
+        }
+
+        return changed;
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { DEFAULT_POLL_INTERVAL, getDeviceOptions, getLightTypeOverride, parsePowerThresholds } from './device-options';
+import { LightType } from './discovery';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Device options', () => {
+    it('should fall back to the global settings', () => {
+        const config = {
+            pollInterval: 5000,
+            experimental: {
+                colorMode: true,
+                temperatureSensor: true
+            }
+        };
+
+        expect(getDeviceOptions(config)).to.deep.equal({
+            pollInterval: 5000,
+            title: undefined,
+            deviceType: 'auto',
+            lightMode: 'auto',
+            channels: undefined,
+            minColorTemperature: undefined,
+            maxColorTemperature: undefined,
+            multiChannelRelay: false,
+            useWhiteLedInColorMode: false,
+            colorMode: true,
+            temperatureSensor: true,
+            energyTariff: undefined,
+            currency: undefined,
+            powerThresholds: undefined
+        });
+
+        expect(getDeviceOptions({}).pollInterval).to.equal(DEFAULT_POLL_INTERVAL);
+    });
+});
+
+describe('Device options', () => {
+    it('should prefer the settings of the device', () => {
+        const config = {
+            pollInterval: 1000,
+            energyTariff: 0.3,
+            currency: 'EUR',
+            experimental: {
+                colorMode: true
+            }
+        };
+
+        const device = {
+            pollInterval: 30000,
+            title: 'Hallway',
+            deviceType: 'rgbcct',
+            lightMode: 'rgbCw',
+            channels: [1, 3],
+            minColorTemperature: 2200,
+            colorMode: false,
+            useWhiteLedInColorMode: true,
+            energyTariff: 0
+        };
+
+        expect(getDeviceOptions(config, device)).to.deep.equal({
+            pollInterval: 30000,
+            title: 'Hallway',
+            deviceType: 'rgbcct',
+            lightMode: 'rgbCw',
+            channels: [1, 3],
+            minColorTemperature: 2200,
+            maxColorTemperature: undefined,
+            multiChannelRelay: false,
+            useWhiteLedInColorMode: true,
+            colorMode: false,
+            temperatureSensor: false,
+            energyTariff: 0,
+            currency: 'EUR',
+            powerThresholds: undefined
+        });
+    });
+});
+
+describe('Device options', () => {
+    it('should ignore invalid overrides', () => {
+        const options = getDeviceOptions({}, {
+            deviceType: 'toaster',
+            lightMode: 'disco',
+            channels: [0, 'a', 2.5],
+            maxColorTemperature: -1,
+            energyTariff: '0.3'
+        });
+
+        expect(options.deviceType).to.equal('auto');
+        expect(options.lightMode).to.equal('auto');
+        expect(options.channels).to.be.undefined;
+        expect(options.maxColorTemperature).to.be.undefined;
+        expect(options.energyTariff).to.be.undefined;
+    });
+});
+
+describe('Device options', () => {
+    it('should map device types to light types', () => {
+        expect(getLightTypeOverride('auto')).to.be.undefined;
+        expect(getLightTypeOverride('plug')).to.equal(LightType.None);
+        expect(getLightTypeOverride('rgbw')).to.equal(LightType.Rgbw);
+    });
+});
+
+describe('Device options', () => {
+    it('should parse the thresholds of a device', () => {
+        expect(parsePowerThresholds(undefined)).to.be.undefined;
+        expect(parsePowerThresholds({ minDuration: 60 })).to.be.undefined;
+
+        expect(parsePowerThresholds({ start: 10, stop: 3, minDuration: 60 })).to.deep.equal({
+            reading: 'power',
+            start: 10,
+            stop: 3,
+            minDuration: 60,
+            overload: undefined,
+            overloadDuration: 0,
+            switchOffOnOverload: false
+        });
+
+        expect(parsePowerThresholds({ reading: 'current', start: 1, stop: 2, overload: 16, switchOffOnOverload: true })).to.deep.equal({
+            reading: 'current',
+            start: 1,
+            stop: 1,
+            minDuration: 0,
+            overload: 16,
+            overloadDuration: 0,
+            switchOffOnOverload: true
+        });
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { LightMode } from './capabilities';
+import { LightType } from './discovery';
+import { PowerThresholds } from './power-thresholds';
+
+export const DEFAULT_POLL_INTERVAL = 1000;
+
+export type DeviceType =
+    'auto' |
+    'plug' |
+    'sensor' |
+    'dimmer' |
+    'colorTemperature' |
+    'rgb' |
+    'rgbw' |
+    'rgbcct';
+
+export interface DeviceOptions {
+    pollInterval: number,
+    title?: string,
+    deviceType: DeviceType,
+    lightMode: 'auto' | LightMode,
+    channels?: number[],
+    // The color temperature range of the light in Kelvin
+    minColorTemperature?: number,
+    maxColorTemperature?: number,
+    multiChannelRelay: boolean,
+    useWhiteLedInColorMode: boolean,
+    colorMode: boolean,
+    temperatureSensor: boolean,
+    // The price of a kWh, the costs are only tracked if it is set
+    energyTariff?: number,
+    currency?: string,
+    powerThresholds?: PowerThresholds
+}
+
+const LIGHT_TYPES: { [type: string]: LightType } = {
+    plug: LightType.None,
+    sensor: LightType.None,
+    dimmer: LightType.Dimmer,
+    colorTemperature: LightType.ColorTemperature,
+    rgb: LightType.Rgb,
+    rgbw: LightType.Rgbw,
+    rgbcct: LightType.Rgbcct
+};
+
+const LIGHT_MODES: string[] = Object.values(LightMode);
+
+function nonNegativeNumber(value: any): number | undefined {
+    return typeof value === 'number' && value >= 0 ? value : undefined;
+}
+
+function positiveInteger(value: any): number | undefined {
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Returns the thresholds of a device or undefined if none are configured.
+ */
+export function parsePowerThresholds(config: any): PowerThresholds | undefined {
+    const start = nonNegativeNumber(config?.start);
+    const overload = nonNegativeNumber(config?.overload);
+
+    if (start === undefined && overload === undefined) {
+        return undefined;
+    }
+
+    const stop = nonNegativeNumber(config.stop);
+
+    return {
+        reading: config.reading === 'current' ? 'current' : 'power',
+        start,
+        // Without a lower stop threshold there is no hysteresis
+        stop: start !== undefined && stop !== undefined && stop <= start ? stop : start,
+        minDuration: nonNegativeNumber(config.minDuration) ?? 0,
+        overload,
+        overloadDuration: nonNegativeNumber(config.overloadDuration) ?? 0,
+        switchOffOnOverload: config.switchOffOnOverload === true
+    };
+}
+
+/**
+ * Merges the settings of a single device with the global ones.
+ * @param config the config of the adapter
+ * @param device the config entry of the device (if any)
+ */
+export function getDeviceOptions(config: any, device: any = {}): DeviceOptions {
+    const experimental = config?.experimental || {};
+
+    const flag = (name: string): boolean => {
+        return typeof device[name] === 'boolean' ? device[name] : experimental[name] === true;
+    };
+
+    const channels = Array.isArray(device.channels) ?
+        device.channels.filter((channel: any) => Number.isInteger(channel) && channel > 0) :
+        undefined;
+
+    return {
+        pollInterval: device.pollInterval || config?.pollInterval || DEFAULT_POLL_INTERVAL,
+        title: device.title || undefined,
+        deviceType: LIGHT_TYPES[device.deviceType] !== undefined ? device.deviceType : 'auto',
+        lightMode: LIGHT_MODES.indexOf(device.lightMode) >= 0 ? device.lightMode : 'auto',
+        channels: channels?.length > 0 ? channels : undefined,
+        minColorTemperature: positiveInteger(device.minColorTemperature),
+        maxColorTemperature: positiveInteger(device.maxColorTemperature),
+        multiChannelRelay: flag('multiChannelRelay'),
+        useWhiteLedInColorMode: flag('useWhiteLedInColorMode'),
+        colorMode: flag('colorMode'),
+        temperatureSensor: flag('temperatureSensor'),
+        energyTariff: nonNegativeNumber(device.energyTariff) ?? nonNegativeNumber(config?.energyTariff),
+        currency: device.currency || config?.currency || undefined,
+        powerThresholds: parsePowerThresholds(device.powerThresholds)
+    };
+}
+
+/**
+ * Returns the light type forced by the device type or undefined if it should be detected.
+ */
+export function getLightTypeOverride(deviceType: DeviceType): LightType | undefined {
+    return LIGHT_TYPES[deviceType];
+}
@@ -0,0 +1,92 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { getLightChannels, getRelayChannels, LightType, parseDiscoveryConfig, parseDiscoverySensors, RelayType } from './discovery';
+import { expect } from 'chai';
+import 'mocha';
+
+const plugConfig = {
+    ip: '192.168.1.42',
+    dn: 'Washing machine',
+    fn: ['Washing machine', null, null, null, null, null, null, null],
+    hn: 'tasmota-A1B2C3-0835',
+    mac: 'A4CF12A1B2C3',
+    md: 'Gosund SP111',
+    ty: 0,
+    if: 0,
+    ofln: 'Offline',
+    onln: 'Online',
+    state: ['OFF', 'ON', 'TOGGLE', 'HOLD'],
+    sw: '9.1.0',
+    t: 'tasmota_A1B2C3',
+    ft: '%prefix%/%topic%/',
+    tp: ['cmnd', 'stat', 'tele'],
+    rl: [1, 0, 0, 0, 0, 0, 0, 0],
+    swc: [-1, -1, -1, -1, -1, -1, -1, -1],
+    btn: [0, 0, 0, 0],
+    so: { '4': 0, '11': 0, '13': 0, '17': 0, '20': 0, '30': 0, '68': 0, '73': 0, '82': 0, '114': 0 },
+    lk: 0,
+    lt_st: 0,
+    sho: [0, 0, 0, 0],
+    ver: 1
+};
+
+describe('Discovery', () => {
+    it('should parse the config of a plug', () => {
+        const result = parseDiscoveryConfig(plugConfig);
+        expect(result).to.not.undefined;
+        expect(result?.mac).to.equal('A4CF12A1B2C3');
+        expect(result?.ip).to.equal('192.168.1.42');
+        expect(result?.hostname).to.equal('tasmota-A1B2C3-0835');
+        expect(result?.topic).to.equal('tasmota_A1B2C3');
+        expect(result?.friendlyNames).to.deep.equal(['Washing machine']);
+        expect(result?.model).to.equal('Gosund SP111');
+        expect(result?.lightType).to.equal(LightType.None);
+    });
+});
+
+describe('Discovery', () => {
+    it('should only report relay channels', () => {
+        const result = parseDiscoveryConfig({ ...plugConfig, rl: [1, 2, 1, 3, 0, 0, 0, 0] });
+        expect(result?.relays[1]).to.equal(RelayType.Light);
+        expect(getRelayChannels(result!)).to.deep.equal([1, 3]);
+        expect(getLightChannels(result!)).to.deep.equal([2]);
+    });
+});
+
+describe('Discovery', () => {
+    it('should parse the light type', () => {
+        const result = parseDiscoveryConfig({ ...plugConfig, rl: [2, 0, 0, 0, 0, 0, 0, 0], lt_st: 5 });
+        expect(result?.lightType).to.equal(LightType.Rgbcct);
+        expect(getRelayChannels(result!)).to.have.length(0);
+    });
+});
+
+describe('Discovery', () => {
+    it('should reject configs without topic', () => {
+        expect(parseDiscoveryConfig({ ...plugConfig, t: undefined })).to.undefined;
+        expect(parseDiscoveryConfig(undefined)).to.undefined;
+    });
+});
+
+describe('Discovery', () => {
+    it('should extract the sensor data', () => {
+        const result = parseDiscoverySensors({ sn: { Time: '2020-12-01T12:00:00', ENERGY: { Power: 12 } }, ver: 1 });
+        expect(result?.ENERGY?.Power).to.equal(12);
+    });
+});
+
+describe('Discovery', () => {
+    it('should parse the configured switches and buttons', () => {
+        const result = parseDiscoveryConfig({ ...plugConfig, swc: [-1, 0, -1, 11, -1, -1, -1, -1], btn: [1, 0, 1, 0] });
+        expect(result?.switches).to.deep.equal([2, 4]);
+        expect(result?.buttons).to.deep.equal([1, 3]);
+        expect(parseDiscoveryConfig(plugConfig)?.switches).to.have.length(0);
+        expect(parseDiscoveryConfig(plugConfig)?.buttons).to.have.length(0);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+export enum RelayType {
+    None = 0,
+    Relay = 1,
+    Light = 2,
+    Shutter = 3
+}
+
+export enum LightType {
+    None = 0,
+    Dimmer = 1,
+    ColorTemperature = 2,
+    Rgb = 3,
+    Rgbw = 4,
+    Rgbcct = 5
+}
+
+export interface DiscoveryConfig {
+    mac: string,
+    ip: string,
+    hostname: string,
+    deviceName?: string,
+    friendlyNames: string[],
+    model?: string,
+    version?: string,
+    topic: string,
+    fullTopic?: string,
+    relays: RelayType[],
+    lightType: LightType,
+    switches: number[],
+    buttons: number[]
+}
+
+export function parseDiscoveryConfig(json: any): DiscoveryConfig | undefined {
+    const {
+        mac,
+        ip,
+        hn,
+        dn,
+        fn,
+        md,
+        sw,
+        t,
+        ft,
+        rl,
+        lt_st,
+        swc,
+        btn
+    } = json || {};
+
+    if (typeof mac !== 'string' || typeof ip !== 'string' || typeof t !== 'string') {
+        return undefined;
+    }
+
+    const friendlyNames: string[] = Array.isArray(fn) ? fn.filter((name: any) => typeof name === 'string') : [];
+    const relays: RelayType[] = Array.isArray(rl) ? rl.map((type: any) => typeof type === 'number' ? type : RelayType.None) : [];
+
+    return {
+        mac,
+        ip,
+        hostname: typeof hn === 'string' ? hn : ip,
+        deviceName: dn,
+        friendlyNames,
+        model: md,
+        version: sw,
+        topic: t,
+        fullTopic: ft,
+        relays,
+        lightType: typeof lt_st === 'number' ? lt_st : LightType.None,
+        // A switch mode of -1 means that the switch is not configured
+        switches: getInputs(swc, mode => mode !== -1),
+        buttons: getInputs(btn, configured => configured === 1)
+    };
+}
+
+function getInputs(values: any, isConfigured: (value: number) => boolean): number[] {
+    const inputs: number[] = [];
+
+    if (Array.isArray(values)) {
+        values.forEach((value, index) => {
+            if (typeof value === 'number' && isConfigured(value)) {
+                inputs.push(index + 1);
+            }
+        });
+    }
+
+    return inputs;
+}
+
+export function getRelayChannels(config: DiscoveryConfig): number[] {
+    return getChannels(config, RelayType.Relay);
+}
+
+export function getLightChannels(config: DiscoveryConfig): number[] {
+    return getChannels(config, RelayType.Light);
+}
+
+function getChannels(config: DiscoveryConfig, relayType: RelayType): number[] {
+    const channels: number[] = [];
+
+    config.relays.forEach((type, index) => {
+        if (type === relayType) {
+            channels.push(index + 1);
+        }
+    });
+
+    return channels;
+}
+
+export function parseDiscoverySensors(json: any): any {
+    return json?.sn;
+}
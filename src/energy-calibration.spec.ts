@@ -0,0 +1,76 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { calibrate, resetCounters, summarizeReadings } from './energy-calibration';
+import { MockTasmotaClient } from './mock-tasmota-client';
+import { InvalidValueError } from './errors';
+import { expect } from 'chai';
+import 'mocha';
+
+function mockMeter(): MockTasmotaClient {
+    const client = new MockTasmotaClient();
+
+    client.respond('Status 10', {
+        StatusSNS: {
+            ENERGY: { Total: 0, Yesterday: 0, Today: 0, Power: 60, Voltage: 230, Current: 0.261 }
+        }
+    });
+
+    return client;
+}
+
+describe('Energy calibration', () => {
+    it('should calibrate and read back the values', async () => {
+        const client = mockMeter();
+        const readings = await calibrate(client, { power: 60, voltage: 230 }, 0);
+
+        expect(client.commands).to.deep.equal(['PowerSet 60', 'VoltageSet 230', 'Status 10']);
+        expect(summarizeReadings(readings)).to.deep.equal({
+            energyTotal: 0,
+            energyYesterday: 0,
+            energyToday: 0,
+            power: 60,
+            voltage: 230,
+            current: 0.261
+        });
+    });
+});
+
+describe('Energy calibration', () => {
+    it('should reject a calibration without reference values', async () => {
+        const client = mockMeter();
+        let error: any;
+
+        try {
+            await calibrate(client, {}, 0);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(InvalidValueError);
+        expect(client.commands).to.have.length(0);
+    });
+});
+
+describe('Energy calibration', () => {
+    it('should reset the counters', async () => {
+        const client = mockMeter();
+        await resetCounters(client, ['today', 'total']);
+        expect(client.commands).to.deep.equal(['EnergyReset1 0', 'EnergyReset3 0', 'Status 10']);
+
+        let error: any;
+
+        try {
+            await resetCounters(client, []);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(InvalidValueError);
+    });
+});
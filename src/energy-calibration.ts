@@ -0,0 +1,89 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { InvalidValueError } from './errors';
+import { EnergyCounter, TasmotaClient } from './tasmota-client';
+import { Reading } from './telemetry';
+
+// The energy driver measures once per second, the next reading contains the calibrated values
+export const SETTLE_TIME_MS = 2000;
+
+export const ENERGY_COUNTER_NAMES: EnergyCounter[] = ['today', 'yesterday', 'total'];
+
+export interface CalibrationInput {
+    power?: number,
+    voltage?: number,
+    current?: number
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns the combined energy readings by type, e.g. { power: 60.1, voltage: 230 }.
+ */
+export function summarizeReadings(readings: Reading[]): { [type: string]: number } {
+    const summary: { [type: string]: number } = {};
+
+    for (const reading of readings) {
+        if (reading.sensor === 'ENERGY' && reading.phase === undefined) {
+            summary[reading.type] = reading.value;
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * Calibrates the energy meter and reads back the new values.
+ * The reference load should be resistive (e.g. an incandescent bulb) and be switched on.
+ */
+export async function calibrate(client: TasmotaClient, input: CalibrationInput, settleTimeMs = SETTLE_TIME_MS): Promise<Reading[]> {
+    const {
+        power,
+        voltage,
+        current
+    } = input;
+
+    if (power === undefined && voltage === undefined && current === undefined) {
+        throw new InvalidValueError(client.host, 'calibration', JSON.stringify(input));
+    }
+
+    // Same order as in the calibration guide of Tasmota
+    if (power !== undefined) {
+        await client.powerSet(power);
+    }
+
+    if (voltage !== undefined) {
+        await client.voltageSet(voltage);
+    }
+
+    if (current !== undefined) {
+        await client.currentSet(current);
+    }
+
+    await wait(settleTimeMs);
+
+    return client.getTelemetry();
+}
+
+/**
+ * Resets the given energy counters and reads back the new values.
+ */
+export async function resetCounters(client: TasmotaClient, counters: EnergyCounter[]): Promise<Reading[]> {
+    if (counters.length == 0) {
+        throw new InvalidValueError(client.host, 'energy counters', JSON.stringify(counters));
+    }
+
+    for (const counter of counters) {
+        await client.energyReset(counter);
+    }
+
+    return client.getTelemetry();
+}
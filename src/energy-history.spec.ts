@@ -0,0 +1,85 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { dateKey, EnergyHistory, MAX_HISTORY_DAYS } from './energy-history';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Energy history', () => {
+    it('should format local dates', () => {
+        expect(dateKey(new Date(2021, 0, 5, 23, 59))).to.equal('2021-01-05');
+        expect(dateKey(new Date(2021, 11, 31))).to.equal('2021-12-31');
+    });
+});
+
+describe('Energy history', () => {
+    it('should accumulate the consumption of several days', () => {
+        const history = new EnergyHistory();
+
+        expect(history.update(1.5, 2, new Date(2021, 2, 1, 12))).to.be.true;
+        expect(history.update(1.5, 2, new Date(2021, 2, 1, 13))).to.be.false;
+        // The counters of the device have been reset in between
+        history.update(0.25, 0, new Date(2021, 2, 3, 8));
+
+        expect(history.getDay(new Date(2021, 2, 1))).to.equal(1.5);
+        expect(history.getDay(new Date(2021, 2, 2))).to.equal(0);
+        expect(history.getDay(new Date(2021, 2, 3))).to.equal(0.25);
+        expect(history.getTotal()).to.equal(3.75);
+    });
+});
+
+describe('Energy history', () => {
+    it('should correct the previous day with the value of yesterday', () => {
+        const history = new EnergyHistory();
+
+        history.update(4, undefined, new Date(2021, 2, 1, 23, 59));
+        history.update(0.1, 4.2, new Date(2021, 2, 2, 0, 5));
+
+        expect(history.getDay(new Date(2021, 2, 1))).to.equal(4.2);
+        expect(history.getTotal()).to.equal(4.3);
+    });
+});
+
+describe('Energy history', () => {
+    it('should archive old days and notify listeners', () => {
+        const history = new EnergyHistory({
+            days: {
+                '2020-01-01': 3,
+                '2021-03-01': 1
+            }
+        });
+
+        let notifications = 0;
+        history.addListener(() => notifications++);
+        history.update(2, undefined, new Date(2021, 2, 2));
+
+        expect(notifications).to.equal(1);
+        expect(Object.keys(history.toJSON().days)).to.deep.equal(['2021-03-01', '2021-03-02']);
+        expect(history.toJSON().archived).to.equal(3);
+        expect(history.getTotal()).to.equal(6);
+        expect(MAX_HISTORY_DAYS).to.be.greaterThan(366);
+    });
+});
+
+describe('Energy history', () => {
+    it('should keep the stored consumption when the counters are reset', () => {
+        const history = new EnergyHistory();
+
+        history.update(1.2, 3, new Date(2021, 2, 2, 10));
+        // EnergyReset1 0 and EnergyReset2 0
+        expect(history.update(0, 0, new Date(2021, 2, 2, 11))).to.be.false;
+
+        expect(history.getDay(new Date(2021, 2, 1))).to.equal(3);
+        expect(history.getDay(new Date(2021, 2, 2))).to.equal(1.2);
+        expect(history.getTotal()).to.equal(4.2);
+
+        // The consumption after the reset is added to the stored one
+        history.update(0.3, 0, new Date(2021, 2, 2, 12));
+        expect(history.getDay(new Date(2021, 2, 2))).to.equal(1.5);
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+// Keep a bit more than a year to compare the consumption with the one of the previous year
+export const MAX_HISTORY_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EnergyHistoryData {
+    // The consumption in kWh by local date (YYYY-MM-DD)
+    days: { [date: string]: number },
+    // The consumption of all days which have been removed from the history
+    archived?: number
+}
+
+export function dateKey(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function isCounterValue(value?: number): value is number {
+    return typeof value === 'number' && value >= 0;
+}
+
+// Avoid rounding errors when adding up the increases of the counter
+function round(value: number): number {
+    return Math.round(value * 100000) / 100000;
+}
+
+/**
+ * Accumulates the daily consumption reported by a Tasmota so that it survives resets of the energy counters.
+ */
+export class EnergyHistory {
+    private days: { [date: string]: number };
+    private archived: number;
+    // The last reading of the counter of today
+    private lastToday?: number;
+    private listeners: (() => void)[] = [];
+
+    constructor(data?: EnergyHistoryData) {
+        this.days = { ...data?.days };
+        this.archived = data?.archived || 0;
+    }
+
+    public addListener(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Stores the consumption of today and yesterday.
+     * The counter of today only adds its increase since the last reading, so that resets of the counter
+     * never lower a stored day. The value of yesterday is the final one and corrects readings taken around midnight.
+     * Returns true if the history has been changed.
+     */
+    public update(energyToday?: number, energyYesterday?: number, now = new Date()): boolean {
+        let changed = false;
+
+        const set = (date: string, value: number) => {
+            if (this.days[date] !== value) {
+                this.days[date] = value;
+                changed = true;
+            }
+        };
+
+        const today = dateKey(now);
+        const yesterday = dateKey(new Date(now.getTime() - DAY_MS));
+
+        if (isCounterValue(energyToday)) {
+            if (this.lastToday === undefined) {
+                // Without a previous reading the counter may include consumption which is already stored
+                set(today, Math.max(this.days[today] ?? 0, energyToday));
+            } else {
+                // A lower value means the counter has been reset or started a new day
+                const increase = energyToday >= this.lastToday ? energyToday - this.lastToday : energyToday;
+                set(today, round((this.days[today] ?? 0) + increase));
+            }
+
+            this.lastToday = energyToday;
+        }
+
+        if (isCounterValue(energyYesterday) && energyYesterday > (this.days[yesterday] ?? 0)) {
+            set(yesterday, energyYesterday);
+        }
+
+        if (changed) {
+            this.prune(now);
+
+            for (const listener of this.listeners) {
+                listener();
+            }
+        }
+
+        return changed;
+    }
+
+    public getDay(date: Date): number {
+        return this.days[dateKey(date)] ?? 0;
+    }
+
+    public getTotal(): number {
+        return Object.values(this.days).reduce((a, b) => a + b, this.archived);
+    }
+
+    public toJSON(): EnergyHistoryData {
+        return {
+            days: { ...this.days },
+            archived: this.archived
+        };
+    }
+
+    private prune(now: Date) {
+        const oldest = dateKey(new Date(now.getTime() - MAX_HISTORY_DAYS * DAY_MS));
+
+        for (const date of Object.keys(this.days)) {
+            // The date format sorts lexicographically
+            if (date < oldest) {
+                this.archived += this.days[date];
+                delete this.days[date];
+            }
+        }
+    }
+}
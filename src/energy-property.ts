@@ -0,0 +1,98 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device, Property } from 'gateway-addon';
+import { Reading, ReadingType } from './telemetry';
+
+interface EnergyDescription {
+    '@type'?: string,
+    title: string,
+    unit?: string,
+    minimum?: number,
+    maximum?: number
+}
+
+export const ENERGY_PROPERTIES: { [type: string]: EnergyDescription } = {
+    voltage: {
+        '@type': 'VoltageProperty',
+        title: 'Voltage',
+        unit: 'volt'
+    },
+    current: {
+        '@type': 'CurrentProperty',
+        title: 'Current',
+        unit: 'ampere'
+    },
+    power: {
+        '@type': 'InstantaneousPowerProperty',
+        title: 'Power',
+        unit: 'watt'
+    },
+    apparentPower: {
+        title: 'Apparent Power',
+        unit: 'VA'
+    },
+    reactivePower: {
+        title: 'Reactive Power',
+        unit: 'VAr'
+    },
+    powerFactor: {
+        '@type': 'InstantaneousPowerFactorProperty',
+        title: 'Power Factor',
+        minimum: 0,
+        maximum: 1
+    },
+    energyToday: {
+        title: 'Energy Today',
+        unit: 'kWh'
+    },
+    energyYesterday: {
+        title: 'Energy Yesterday',
+        unit: 'kWh'
+    },
+    energyTotal: {
+        title: 'Energy Total',
+        unit: 'kWh'
+    }
+};
+
+// Only the instantaneous values are reported per phase
+const PHASE_TYPES: ReadingType[] = [
+    'voltage',
+    'current',
+    'power',
+    'apparentPower',
+    'reactivePower',
+    'powerFactor'
+];
+
+export function isPhaseType(type: ReadingType): boolean {
+    return PHASE_TYPES.indexOf(type) > -1;
+}
+
+/**
+ * A reading of the energy meter, either combined or of a single phase.
+ */
+export class EnergyProperty extends Property {
+    constructor(device: Device, public readingType: ReadingType, private phase?: number) {
+        super(device, phase ? `${readingType}${phase}` : readingType, {
+            ...ENERGY_PROPERTIES[readingType],
+            title: phase ? `${ENERGY_PROPERTIES[readingType].title} L${phase}` : ENERGY_PROPERTIES[readingType].title,
+            type: 'number',
+            readOnly: true
+        });
+    }
+
+    update(readings: Reading[]) {
+        const reading = readings.find(reading => reading.type === this.readingType && reading.phase === this.phase);
+
+        if (reading) {
+            this.setCachedValueAndNotify(reading.value);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Database } from 'gateway-addon';
+import { EnergyHistory, EnergyHistoryData } from './energy-history';
+import { debug } from './logger';
+
+// The readings change every few seconds, writing them once a minute is precise enough
+const SAVE_DELAY_MS = 60 * 1000;
+
+/**
+ * Persists the energy history of all devices in a separate entry of the gateway database.
+ */
+export class EnergyStore {
+    private database: Database;
+    private data: { [id: string]: EnergyHistoryData } = {};
+    private histories: { [id: string]: EnergyHistory } = {};
+    private saveTimeout?: NodeJS.Timeout;
+
+    constructor(packageName: string) {
+        this.database = new Database(`${packageName}-energy`);
+    }
+
+    public async load() {
+        await this.database.open();
+        const config = await this.database.loadConfig();
+        this.data = config?.devices || {};
+    }
+
+    public getHistory(id: string): EnergyHistory {
+        let history = this.histories[id];
+
+        if (!history) {
+            history = new EnergyHistory(this.data[id]);
+            history.addListener(() => this.scheduleSave());
+            this.histories[id] = history;
+        }
+
+        return history;
+    }
+
+    private scheduleSave() {
+        if (!this.saveTimeout) {
+            this.saveTimeout = setTimeout(() => {
+                this.saveTimeout = undefined;
+                this.save().catch(e => console.warn(`Could not save the energy history: ${e}`));
+            }, SAVE_DELAY_MS);
+        }
+    }
+
+    private async save() {
+        for (const [id, history] of Object.entries(this.histories)) {
+            this.data[id] = history.toJSON();
+        }
+
+        debug(`Saving the energy history of ${Object.keys(this.histories).length} devices`);
+
+        await this.database.saveConfig({
+            devices: this.data
+        });
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { AuthenticationError, checkCommandResult, CommandRejectedError, HttpError, isRetryable, MalformedResponseError, parseCommandResponse, TasmotaError, UnreachableError } from './errors';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Errors', () => {
+    it('should return the parsed result of a command', () => {
+        expect(parseCommandResponse('plug', 'Power', '{"POWER":"ON"}')).to.deep.equal({ POWER: 'ON' });
+    });
+});
+
+describe('Errors', () => {
+    it('should reject malformed responses', () => {
+        expect(() => parseCommandResponse('plug', 'Power', '<html>')).to.throw(MalformedResponseError);
+        expect(() => parseCommandResponse('plug', 'Power', '"ON"')).to.throw(MalformedResponseError);
+    });
+});
+
+describe('Errors', () => {
+    it('should detect rejected commands', () => {
+        expect(() => checkCommandResult('plug', 'Foo', { Command: 'Unknown' })).to.throw(CommandRejectedError, 'Command Unknown');
+    });
+});
+
+describe('Errors', () => {
+    it('should accept the acknowledgement of a backlog', () => {
+        const acknowledgement = { WARNING: 'Enable weblog 2 if response expected' };
+        expect(checkCommandResult('plug', 'Backlog Power ON; Dimmer 50', acknowledgement)).to.deep.equal(acknowledgement);
+        expect(checkCommandResult('plug', 'backlog0 Power ON', acknowledgement)).to.deep.equal(acknowledgement);
+        expect(() => checkCommandResult('plug', 'Power ON', acknowledgement)).to.throw(CommandRejectedError);
+        expect(() => checkCommandResult('plug', 'Backlog Power ON', { WARNING: 'Need user=<username>&password=<password>' })).to.throw(AuthenticationError);
+    });
+});
+
+describe('Errors', () => {
+    it('should detect a wrong password', () => {
+        expect(() => checkCommandResult('plug', 'Power', { WARNING: 'Need user=<username>&password=<password>' })).to.throw(AuthenticationError);
+    });
+});
+
+describe('Errors', () => {
+    it('should only retry if the device might respond next time', () => {
+        expect(isRetryable(new UnreachableError('plug', 'timeout'))).to.be.true;
+        expect(isRetryable(new HttpError('plug', 503, 'Service Unavailable'))).to.be.true;
+        expect(isRetryable(new HttpError('plug', 404, 'Not Found'))).to.be.false;
+        expect(isRetryable(new AuthenticationError('plug'))).to.be.false;
+        expect(isRetryable('timeout')).to.be.false;
+    });
+});
+
+describe('Errors', () => {
+    it('should keep the type of the errors', () => {
+        const error = new UnreachableError('plug', 'timeout');
+        expect(error).to.be.instanceOf(TasmotaError);
+        expect(error).to.be.instanceOf(Error);
+        expect(error.name).to.equal('UnreachableError');
+        expect(error.message).to.equal('plug: Device is unreachable (timeout)');
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { debug } from './logger';
+
+export class TasmotaError extends Error {
+    constructor(public host: string, message: string) {
+        super(`${host}: ${message}`);
+        this.name = this.constructor.name;
+    }
+}
+
+export class AuthenticationError extends TasmotaError {
+    constructor(host: string) {
+        super(host, 'The password was rejected');
+    }
+}
+
+export class UnreachableError extends TasmotaError {
+    constructor(host: string, public reason: string) {
+        super(host, `Device is unreachable (${reason})`);
+    }
+}
+
+export class HttpError extends TasmotaError {
+    constructor(host: string, public status: number, public statusText: string) {
+        super(host, `Tasmota responded with ${statusText} (${status})`);
+    }
+}
+
+export class CommandRejectedError extends TasmotaError {
+    constructor(host: string, public command: string, public reason: string, public result: any) {
+        super(host, `${command} was rejected: ${reason}`);
+    }
+}
+
+export class InvalidValueError extends TasmotaError {
+    constructor(host: string, public parameter: string, public value: any) {
+        super(host, `Invalid ${parameter}: ${value}`);
+    }
+}
+
+export class MalformedResponseError extends TasmotaError {
+    constructor(host: string, public command: string, public body: string) {
+        super(host, `Invalid response to ${command}: ${body.substring(0, 100)}`);
+    }
+}
+
+export function isRetryable(error: any): boolean {
+    if (error instanceof UnreachableError) {
+        return true;
+    }
+
+    return error instanceof HttpError && error.status >= 500;
+}
+
+export function parseCommandResponse(host: string, command: string, body: string): any {
+    let result: any;
+
+    try {
+        result = JSON.parse(body);
+    } catch {
+        throw new MalformedResponseError(host, command, body);
+    }
+
+    if (!result || typeof result !== 'object') {
+        throw new MalformedResponseError(host, command, body);
+    }
+
+    return result;
+}
+
+export function isAuthenticationWarning(result: any): boolean {
+    // A missing or wrong password is reported as warning as well
+    return typeof result?.WARNING === 'string' && result.WARNING.startsWith('Need user=');
+}
+
+/**
+ * Over http the device only acknowledges a backlog, the results of its commands are not part of the response.
+ */
+export function isBacklogAcknowledgement(command: string, result: any): boolean {
+    return /^backlog\d*(\s|$)/i.test(command.trim()) && typeof result?.WARNING === 'string' && result.WARNING.startsWith('Enable weblog');
+}
+
+export function checkCommandResult(host: string, command: string, result: any): any {
+    const warning = result?.WARNING;
+
+    if (typeof warning === 'string') {
+        if (isAuthenticationWarning(result)) {
+            throw new AuthenticationError(host);
+        }
+
+        if (isBacklogAcknowledgement(command, result)) {
+            return result;
+        }
+
+        throw new CommandRejectedError(host, command, warning, result);
+    }
+
+    // Unknown commands and invalid arguments are answered with {"Command":"Unknown"}
+    if (typeof result?.Command === 'string') {
+        throw new CommandRejectedError(host, command, `Command ${result.Command}`, result);
+    }
+
+    return result;
+}
+
+/**
+ * Problems the user can fix are logged as warnings, everything else only in the debug log.
+ */
+export function logError(context: string, error: any) {
+    if (error instanceof AuthenticationError || error instanceof CommandRejectedError || error instanceof InvalidValueError) {
+        console.warn(`${context}: ${error.message}`);
+    } else {
+        debug(`${context}: ${error}`);
+    }
+}
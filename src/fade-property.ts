@@ -0,0 +1,28 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device } from 'gateway-addon';
+import { TasmotaClient } from './tasmota-client';
+import { WritableProperty } from './writable-property';
+
+export class FadeProperty extends WritableProperty<boolean> {
+    constructor(device: Device, client: TasmotaClient) {
+        super(device, 'fade', {
+            type: 'boolean',
+            title: 'Fade',
+            description: 'Whether the light fades between values'
+        }, async (value) => {
+            await client.fade(value);
+        });
+    }
+    public onState(state: any) {
+        if (state?.Fade !== undefined) {
+            this.update(state.Fade === 'ON' || state.Fade === 1);
+        }
+    }
+}
@@ -19,6 +19,15 @@ declare module 'gateway-addon' {
         type: string
     }
 
+    class Action {
+        public id: string;
+        public name: string;
+        public input: any;
+        public status: string;
+        public start(): void;
+        public finish(): void;
+    }
+
     class Property {
         public name: string;
         protected title: string;
@@ -38,7 +47,10 @@ declare module 'gateway-addon' {
 
         public properties: Map<String, Property>;
         public notifyPropertyChanged(property: Property): void;
+        public connectedNotify(connected: boolean): void;
         public addAction(name: string, metadata: any): void;
+        public performAction(action: Action): Promise<void>;
+        public addEvent(name: string, metadata: any): void;
 
         public events: Map<String, EventDescription>;
         public eventNotify(event: Event): void;
@@ -0,0 +1,127 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device, Event, Property } from 'gateway-addon';
+import { debug } from './logger';
+import { parseInputActions, Reading } from './telemetry';
+
+export interface InputConfig {
+    switches: number[],
+    buttons: number[]
+}
+
+const INPUT_EVENTS: { [action: string]: { name: string, type: string, description: string } } = {
+    SINGLE: {
+        name: 'pressed',
+        type: 'PressedEvent',
+        description: 'A button was pressed'
+    },
+    DOUBLE: {
+        name: 'doublePressed',
+        type: 'DoublePressedEvent',
+        description: 'A button was pressed twice'
+    },
+    HOLD: {
+        name: 'longPressed',
+        type: 'LongPressedEvent',
+        description: 'A button was held'
+    }
+};
+
+export class SwitchProperty extends Property {
+    constructor(device: Device, public input: string) {
+        super(device, input.toLowerCase(), {
+            '@type': 'BooleanProperty',
+            type: 'boolean',
+            title: input.replace(/(\d+)$/, ' $1'),
+            description: 'The state of the switch',
+            readOnly: true
+        });
+    }
+
+    update(value: boolean) {
+        this.setCachedValueAndNotify(value);
+    }
+}
+
+export class Inputs {
+    private switchProperties: { [input: string]: SwitchProperty } = {};
+    private hasButtons: boolean;
+
+    constructor(private device: Device, config: InputConfig, readings: Reading[]) {
+        const switches = config.switches.map(index => `Switch${index}`);
+
+        for (const reading of readings) {
+            if (reading.type === 'switch' && switches.indexOf(reading.sensor) < 0) {
+                switches.push(reading.sensor);
+            }
+        }
+
+        for (const input of switches) {
+            debug(`Creating property for ${input}`);
+            const switchProperty = new SwitchProperty(device, input);
+            this.switchProperties[input] = switchProperty;
+            device.properties.set(switchProperty.name, switchProperty);
+        }
+
+        this.hasButtons = config.buttons.length > 0;
+
+        if (this.hasButtons || switches.length > 0) {
+            for (const { name, type, description } of Object.values(INPUT_EVENTS)) {
+                device.addEvent(name, {
+                    '@type': type,
+                    description,
+                    type: 'string'
+                });
+            }
+        }
+
+        this.update(readings);
+    }
+
+    public getCapabilities(): string[] {
+        const capabilities: string[] = [];
+
+        if (this.hasButtons) {
+            capabilities.push('PushButton');
+        }
+
+        if (Object.keys(this.switchProperties).length > 0) {
+            capabilities.push('BinarySensor');
+        }
+
+        return capabilities;
+    }
+
+    public update(readings: Reading[]) {
+        for (const reading of readings) {
+            const switchProperty = this.switchProperties[reading.sensor];
+
+            if (reading.type === 'switch' && switchProperty) {
+                switchProperty.update(reading.value === 1);
+            }
+        }
+    }
+
+    public handleState(state: any) {
+        for (const { input, action } of parseInputActions(state)) {
+            const switchProperty = this.switchProperties[input];
+
+            if (switchProperty && (action === 'ON' || action === 'OFF')) {
+                switchProperty.update(action === 'ON');
+            }
+
+            const event = INPUT_EVENTS[action];
+
+            if (event) {
+                debug(`${this.device.name} / ${input} reported ${action}`);
+                this.device.eventNotify(new Event(this.device, event.name, input));
+            }
+        }
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { BrightnessControl, ColorControl } from './light-controls';
+import { MockTasmotaClient } from './mock-tasmota-client';
+import { InvalidValueError } from './errors';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Light controls', () => {
+    it('should set the brightness with the matching command', async () => {
+        const client = new MockTasmotaClient();
+        await new BrightnessControl(client).set(40);
+        await new BrightnessControl(client, 2).set(50);
+        await new BrightnessControl(client, 3, 'Channel').set(60);
+        expect(client.commands).to.deep.equal(['Dimmer 40', 'Dimmer2 50', 'Channel3 60']);
+    });
+});
+
+describe('Light controls', () => {
+    it('should read the brightness of the matching dimmer or channel', () => {
+        const state = { Dimmer: 40, Dimmer1: 30, Dimmer2: 70, Channel: [10, 20, 30] };
+        const client = new MockTasmotaClient();
+        expect(new BrightnessControl(client).readState(state)).to.equal(40);
+        expect(new BrightnessControl(client, 2).readState(state)).to.equal(70);
+        expect(new BrightnessControl(client, 3, 'Channel').readState(state)).to.equal(30);
+        expect(new BrightnessControl(client, 4, 'Channel').readState(state)).to.be.undefined;
+        expect(new BrightnessControl(client).readState(undefined)).to.be.undefined;
+    });
+});
+
+describe('Light controls', () => {
+    it('should set the color without changing the brightness', async () => {
+        const client = new MockTasmotaClient();
+        const control = new ColorControl(client, false);
+        await control.set('#00ff00');
+
+        let error: any;
+
+        try {
+            await control.set('green');
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(InvalidValueError);
+        expect(client.commands).to.deep.equal(['Backlog HSBColor1 120; HSBColor2 100']);
+    });
+});
+
+describe('Light controls', () => {
+    it('should render greys with the white channel if enabled', async () => {
+        const client = new MockTasmotaClient();
+        const control = new ColorControl(client, true);
+        control.readState({ Dimmer: 30, Color: 'FF00000000' });
+        await control.set('#ffffff');
+        await control.set('#ff0000');
+        expect(client.commands).to.deep.equal(['White 30', 'Backlog HSBColor1 0; HSBColor2 100']);
+    });
+});
+
+describe('Light controls', () => {
+    it('should read the color at full brightness', () => {
+        const control = new ColorControl(new MockTasmotaClient(), false);
+        expect(control.readState({ HSBColor: '240,100,20', Color: '000033' })).to.equal('#0000ff');
+        expect(control.readState({ Color: 'FF8000' })).to.equal('#ff8000');
+        expect(control.readState({ Dimmer: 50 })).to.be.undefined;
+    });
+});
+
+describe('Light controls', () => {
+    it('should keep the last color while only the white channels are lit', () => {
+        const control = new ColorControl(new MockTasmotaClient(), false);
+        expect(control.readState({ HSBColor: '0,0,100', Color: '000000FF' })).to.be.undefined;
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { hexToHsb, hsbToHex, isWhiteMode, parseHsbColor } from './color-conversion';
+import { InvalidValueError } from './errors';
+import { TasmotaClient } from './tasmota-client';
+
+/**
+ * Translates between the brightness of a light and the commands and state of the device.
+ */
+export class BrightnessControl {
+    /**
+     * @param index the index of the dimmer or channel if the light is split
+     * @param command Dimmer for split color and white channels (SetOption37), Channel for split channels (SetOption68)
+     */
+    constructor(private client: TasmotaClient, private index?: number, private command: 'Dimmer' | 'Channel' = 'Dimmer') {
+    }
+
+    public async set(value: number) {
+        if (this.index && this.command === 'Channel') {
+            await this.client.channel(this.index, value);
+        } else {
+            await this.client.dimmer(value, this.index);
+        }
+    }
+
+    public readState(state: any): number | undefined {
+        if (!this.index) {
+            return state?.Dimmer;
+        }
+
+        if (this.command === 'Channel') {
+            return state?.Channel?.[this.index - 1];
+        }
+
+        return state?.[`Dimmer${this.index}`];
+    }
+}
+
+/**
+ * Translates between the color of a light and the commands and state of the device.
+ */
+export class ColorControl {
+    private hasWhite = false;
+    private brightness = 100;
+
+    /**
+     * @param useWhiteLed render greys with the white channel of the light
+     */
+    constructor(private client: TasmotaClient, private useWhiteLed: boolean) {
+    }
+
+    public async set(value: string) {
+        const hsb = hexToHsb(value);
+
+        if (!hsb) {
+            throw new InvalidValueError(this.client.host, 'color', value);
+        }
+
+        if (this.useWhiteLed && this.hasWhite && hsb.saturation == 0) {
+            // Greys are rendered by the white channel
+            await this.client.white(this.brightness);
+        } else {
+            // The brightness is controlled by the brightness property
+            await this.client.hsbColor(hsb.hue, hsb.saturation);
+        }
+    }
+
+    /**
+     * Returns the color to show or undefined if it did not change.
+     */
+    public readState(state: any): string | undefined {
+        if (typeof state?.Dimmer === 'number') {
+            this.brightness = state.Dimmer;
+        }
+
+        const color = state?.Color;
+
+        if (typeof color === 'string') {
+            this.hasWhite = color.length > 6;
+
+            // Keep the last color instead of showing a grey while only the white channels are lit
+            if (isWhiteMode(color)) {
+                return undefined;
+            }
+        }
+
+        const hsb = parseHsbColor(state?.HSBColor);
+
+        if (hsb) {
+            return hsbToHex({
+                ...hsb,
+                brightness: 100
+            });
+        }
+
+        if (typeof color === 'string' && color.length >= 6) {
+            return `#${color.substring(0, 6).toLowerCase()}`;
+        }
+
+        return undefined;
+    }
+}
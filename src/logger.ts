@@ -6,12 +6,43 @@
 
 let debugLogger: (message?: any, ...optionalParams: any[]) => void = () => { }
 
+const secrets: string[] = [];
+
 export function setup(debug: boolean): void {
     if (debug === true) {
         debugLogger = console.log;
     }
 }
 
+export function addSecret(secret?: string): void {
+    if (secret) {
+        for (const variant of [secret, encodeURIComponent(secret)]) {
+            if (secrets.indexOf(variant) < 0) {
+                secrets.push(variant);
+            }
+        }
+
+        // Replace the longest secrets first in case one contains another
+        secrets.sort((a, b) => b.length - a.length);
+    }
+}
+
+export function redact(message: any): any {
+    if (typeof message !== 'string') {
+        return message;
+    }
+
+    let redacted = message
+        .replace(/(password=)[^&\s]*/gi, '$1***')
+        .replace(/(\/\/[^:/@\s]+:)[^@\s/]*@/g, '$1***@');
+
+    for (const secret of secrets) {
+        redacted = redacted.split(secret).join('***');
+    }
+
+    return redacted;
+}
+
 export function debug(message?: any, ...optionalParams: any[]): void {
-    debugLogger(message, optionalParams);
+    debugLogger(redact(message), optionalParams.map(redact));
 }
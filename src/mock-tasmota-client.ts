@@ -0,0 +1,42 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { TasmotaClient } from './tasmota-client';
+
+/**
+ * Answers commands from a table instead of the network and remembers every command it received.
+ */
+export class MockTasmotaClient extends TasmotaClient {
+    public commands: string[] = [];
+    private responses: { [command: string]: any } = {};
+    private error?: any;
+
+    constructor(host = 'mock') {
+        super(host);
+    }
+
+    public respond(command: string, response: any) {
+        this.responses[command.toLowerCase()] = response;
+    }
+
+    public failWith(error?: any) {
+        this.error = error;
+    }
+
+    protected async execute(command: string): Promise<any> {
+        this.commands.push(command);
+
+        if (this.error) {
+            throw this.error;
+        }
+
+        const [name] = command.split(' ');
+
+        return this.responses[command.toLowerCase()] ?? this.responses[name.toLowerCase()] ?? {};
+    }
+}
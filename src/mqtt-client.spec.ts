@@ -0,0 +1,245 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { buildTopic, matchesResponse, parseTopic, MqttConnection, TasmotaMqttClient } from './mqtt-client';
+import { expect } from 'chai';
+import 'mocha';
+
+function matches(filter: string, topic: string) {
+    const filterParts = filter.split('/');
+    const topicParts = topic.split('/');
+
+    for (let i = 0; i < filterParts.length; i++) {
+        if (filterParts[i] === '#') {
+            return true;
+        }
+
+        if (filterParts[i] !== '+' && filterParts[i] !== topicParts[i]) {
+            return false;
+        }
+    }
+
+    return filterParts.length === topicParts.length;
+}
+
+class LocalBroker {
+    private clients: { subscriptions: string[], listener?: (topic: string, payload: Buffer) => void }[] = [];
+
+    connect(): MqttConnection {
+        const client: { subscriptions: string[], listener?: (topic: string, payload: Buffer) => void } = {
+            subscriptions: []
+        };
+
+        this.clients.push(client);
+        const broker = this;
+
+        return {
+            on(_event, listener) {
+                client.listener = listener;
+                return this;
+            },
+            subscribe(topic) {
+                client.subscriptions.push(topic);
+                return this;
+            },
+            publish(topic, message) {
+                broker.publish(topic, message);
+                return this;
+            },
+            end() {
+                return this;
+            }
+        };
+    }
+
+    publish(topic: string, message: string) {
+        for (const client of this.clients) {
+            if (client.listener && client.subscriptions.some(filter => matches(filter, topic))) {
+                client.listener(topic, Buffer.from(message));
+            }
+        }
+    }
+}
+
+function fakeTasmota(broker: LocalBroker, topic: string) {
+    const connection = broker.connect();
+    let power = 'OFF';
+
+    const execute = (command: string, value: string) => {
+        switch (command) {
+            case 'POWER':
+                if (value !== '') {
+                    power = value;
+                }
+
+                broker.publish(`stat/${topic}/POWER`, power);
+                broker.publish(`stat/${topic}/RESULT`, JSON.stringify({ POWER: power }));
+                break;
+            case 'LEDPOWER':
+                broker.publish(`stat/${topic}/RESULT`, JSON.stringify({ LedPower: 'ON' }));
+                break;
+            case 'CTRANGE':
+                broker.publish(`stat/${topic}/RESULT`, JSON.stringify({ CTRange: '153,500' }));
+                break;
+            case 'STATUS':
+                broker.publish(`stat/${topic}/STATUS${value}`, JSON.stringify(value === '5' ? { StatusNET: { Hostname: topic } } : { Status: { Topic: topic } }));
+                break;
+        }
+    };
+
+    connection.on('message', (mqttTopic, payload) => {
+        const command = mqttTopic.split('/')[2].toUpperCase();
+
+        if (command === 'BACKLOG') {
+            // The device executes the commands of a backlog one after the other
+            payload.toString().split(';').forEach((backlogCommand, index) => {
+                const [name, ...args] = backlogCommand.trim().split(' ');
+                setTimeout(() => execute(name.toUpperCase(), args.join(' ')), index);
+            });
+        } else {
+            execute(command, payload.toString());
+        }
+    });
+
+    connection.subscribe(`cmnd/${topic}/#`);
+}
+
+describe('MQTT topics', () => {
+    it('should build topics from the default full topic', () => {
+        expect(buildTopic('%prefix%/%topic%/', 'cmnd', 'tasmota_ABC', 'Power')).to.equal('cmnd/tasmota_ABC/Power');
+    });
+});
+
+describe('MQTT topics', () => {
+    it('should add a missing trailing slash', () => {
+        expect(buildTopic('%topic%/%prefix%', 'stat', 'plug', 'RESULT')).to.equal('plug/stat/RESULT');
+    });
+});
+
+describe('MQTT topics', () => {
+    it('should parse topics of the default full topic', () => {
+        const result = parseTopic('%prefix%/%topic%/', 'tele/tasmota_ABC/SENSOR');
+        expect(result?.prefix).to.equal('tele');
+        expect(result?.topic).to.equal('tasmota_ABC');
+        expect(result?.command).to.equal('SENSOR');
+    });
+});
+
+describe('MQTT topics', () => {
+    it('should parse topics of a custom full topic', () => {
+        const result = parseTopic('home/%topic%/%prefix%/', 'home/plug/stat/RESULT');
+        expect(result?.prefix).to.equal('stat');
+        expect(result?.topic).to.equal('plug');
+        expect(result?.command).to.equal('RESULT');
+    });
+});
+
+describe('MQTT topics', () => {
+    it('should ignore foreign topics', () => {
+        expect(parseTopic('%prefix%/%topic%/', 'zigbee/bridge/state')).to.undefined;
+    });
+});
+
+describe('MQTT client', () => {
+    it('should deliver state updates to subscribers', () => {
+        const broker = new LocalBroker();
+        const client = new TasmotaMqttClient(broker.connect());
+        const messages: any[] = [];
+        client.subscribe('plug', (prefix, command, payload) => messages.push({ prefix, command, payload }));
+        broker.publish('tele/plug/STATE', '{"POWER":"ON"}');
+        broker.publish('tele/other/STATE', '{"POWER":"OFF"}');
+        expect(messages).to.have.length(1);
+        expect(messages[0].prefix).to.equal('tele');
+        expect(messages[0].command).to.equal('STATE');
+        expect(messages[0].payload.POWER).to.equal('ON');
+    });
+});
+
+describe('MQTT client', () => {
+    it('should resolve requests with the json result', async () => {
+        const broker = new LocalBroker();
+        fakeTasmota(broker, 'plug');
+        const client = new TasmotaMqttClient(broker.connect());
+        const result = await client.request('plug', 'Power', 'ON');
+        expect(result.POWER).to.equal('ON');
+    });
+});
+
+describe('MQTT client', () => {
+    it('should ignore results of other commands', async () => {
+        const broker = new LocalBroker();
+        fakeTasmota(broker, 'bulb');
+        const client = new TasmotaMqttClient(broker.connect());
+
+        await client.request('bulb', 'Backlog', 'LedPower 2; LedPower 2; LedPower 2');
+        expect(await client.request('bulb', 'CTRange')).to.deep.equal({ CTRange: '153,500' });
+    });
+});
+
+describe('MQTT client', () => {
+    it('should answer concurrent requests with their own results', async () => {
+        const broker = new LocalBroker();
+        fakeTasmota(broker, 'plug');
+        const client = new TasmotaMqttClient(broker.connect());
+
+        const results = await Promise.all([
+            client.request('plug', 'Status', '5'),
+            client.request('plug', 'Status'),
+            client.request('plug', 'Power', 'ON')
+        ]);
+
+        expect(results).to.deep.equal([
+            { StatusNET: { Hostname: 'plug' } },
+            { Status: { Topic: 'plug' } },
+            { POWER: 'ON' }
+        ]);
+    });
+});
+
+describe('MQTT client', () => {
+    it('should match results by the key or the status topic', () => {
+        expect(matchesResponse('Power2', 'ON', 'RESULT', { POWER2: 'ON' })).to.be.true;
+        expect(matchesResponse('HSBColor1', '120', 'RESULT', { POWER: 'ON', HSBColor: '120,100,50' })).to.be.true;
+        expect(matchesResponse('CTRange', '', 'RESULT', { LedPower: 'ON' })).to.be.false;
+        expect(matchesResponse('Foo', '', 'RESULT', { Command: 'Unknown' })).to.be.true;
+        expect(matchesResponse('Status', '0', 'STATUS0', { Status: {} })).to.be.true;
+        expect(matchesResponse('Status', '0', 'STATUS', { Status: {} })).to.be.false;
+        expect(matchesResponse('Backlog', 'Dimmer 50; Delay 10; Power OFF', 'RESULT', { POWER: 'ON', Dimmer: 50 })).to.be.true;
+    });
+});
+
+describe('MQTT client', () => {
+    it('should reject requests without response', async () => {
+        const broker = new LocalBroker();
+        const client = new TasmotaMqttClient(broker.connect());
+        let error;
+
+        try {
+            await client.request('plug', 'Power', '', 10);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.not.undefined;
+    });
+});
+
+describe('MQTT client', () => {
+    it('should deliver discovery messages', () => {
+        const broker = new LocalBroker();
+        const client = new TasmotaMqttClient(broker.connect());
+        const messages: any[] = [];
+        client.subscribeDiscovery((mac, type, payload) => messages.push({ mac, type, payload }));
+        broker.publish('tasmota/discovery/A4CF12A1B2C3/config', '{"t":"tasmota_A1B2C3"}');
+        broker.publish('tasmota/discovery/A4CF12A1B2C3/sensors', '');
+        expect(messages).to.have.length(1);
+        expect(messages[0].mac).to.equal('A4CF12A1B2C3');
+        expect(messages[0].type).to.equal('config');
+        expect(messages[0].payload.t).to.equal('tasmota_A1B2C3');
+    });
+});
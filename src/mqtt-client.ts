@@ -0,0 +1,258 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { connect } from 'mqtt';
+import { debug } from './logger';
+
+export const DEFAULT_FULL_TOPIC = '%prefix%/%topic%/';
+
+const DISCOVERY_PREFIX = 'tasmota/discovery/';
+
+export interface MqttConfig {
+    url: string,
+    username?: string,
+    password?: string,
+    fullTopic?: string
+}
+
+export interface MqttConnection {
+    on(event: 'message', listener: (topic: string, payload: Buffer) => void): this;
+    subscribe(topic: string): this;
+    publish(topic: string, message: string): this;
+    end(): this;
+}
+
+export type MessageListener = (prefix: string, command: string, payload: any) => void;
+
+export type DiscoveryListener = (mac: string, type: string, payload: any) => void;
+
+export function buildTopic(fullTopic: string, prefix: string, topic: string, command = '') {
+    let result = fullTopic
+        .replace('%prefix%', prefix)
+        .replace('%topic%', topic);
+
+    if (!result.endsWith('/')) {
+        result += '/';
+    }
+
+    return result + command;
+}
+
+export function parseTopic(fullTopic: string, mqttTopic: string): { prefix: string, topic: string, command: string } | undefined {
+    const template = buildTopic(fullTopic, '%prefix%', '%topic%')
+        .split('/')
+        .map(part => {
+            switch (part) {
+                case '%prefix%':
+                    return '(cmnd|stat|tele)';
+                case '%topic%':
+                    return '([^/]+)';
+                default:
+                    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+        })
+        .join('/');
+
+    const prefixIndex = fullTopic.indexOf('%prefix%');
+    const topicIndex = fullTopic.indexOf('%topic%');
+    const match = new RegExp(`^${template}([^/]+)$`).exec(mqttTopic);
+
+    if (!match || prefixIndex < 0 || topicIndex < 0) {
+        return undefined;
+    }
+
+    const [prefix, topic] = prefixIndex < topicIndex ? [match[1], match[2]] : [match[2], match[1]];
+
+    return {
+        prefix,
+        topic,
+        command: match[3]
+    };
+}
+
+/**
+ * Tasmota publishes the results of all commands on the same topics.
+ * A result answers a command if it is on the STATUS<n> topic of a Status command or contains the key of the command.
+ * @param responseTopic the last part of the topic of the result, e.g. RESULT or STATUS5
+ */
+export function matchesResponse(command: string, payload: string, responseTopic: string, json: any): boolean {
+    const name = command.toUpperCase();
+
+    if (name === 'STATUS') {
+        return responseTopic.toUpperCase() === `STATUS${payload.trim()}`;
+    }
+
+    if (name === 'BACKLOG') {
+        // The results of a backlog arrive one by one, only the first one arrives right away
+        const [firstCommand = '', ...args] = payload.split(';')[0].trim().split(' ');
+        return matchesResponse(firstCommand, args.join(' '), responseTopic, json);
+    }
+
+    // Indexed commands like Power2 or HSBColor1 may answer with another index or none at all
+    const baseName = name.replace(/\d+$/, '');
+
+    return Object.keys(json).some(key => {
+        const upperKey = key.toUpperCase();
+        return upperKey === name || upperKey.replace(/\d+$/, '') === baseName || upperKey === 'COMMAND';
+    });
+}
+
+export class TasmotaMqttClient {
+    private listeners: { [topic: string]: MessageListener[] } = {};
+    private discoveryListeners: DiscoveryListener[] = [];
+    private pendingRequests: { [topic: string]: Promise<any> } = {};
+
+    constructor(private connection: MqttConnection, private fullTopic = DEFAULT_FULL_TOPIC) {
+        connection.on('message', (topic, payload) => this.handleMessage(topic, payload.toString()));
+    }
+
+    static connect(config: MqttConfig) {
+        const {
+            url,
+            username,
+            password,
+            fullTopic
+        } = config;
+
+        debug(`Connecting to mqtt broker at ${url}`);
+
+        const connection = connect(url, {
+            username,
+            password
+        });
+
+        connection.on('error', e => console.warn(`Mqtt error: ${e.message}`));
+        connection.on('offline', () => console.warn(`Lost the connection to the mqtt broker at ${url}`));
+        connection.on('connect', () => debug(`Connected to mqtt broker at ${url}`));
+
+        return new TasmotaMqttClient(connection, fullTopic || DEFAULT_FULL_TOPIC);
+    }
+
+    public subscribe(topic: string, listener: MessageListener) {
+        let listeners = this.listeners[topic];
+
+        if (!listeners) {
+            listeners = [];
+            this.listeners[topic] = listeners;
+            this.connection.subscribe(`${buildTopic(this.fullTopic, 'stat', topic)}#`);
+            this.connection.subscribe(`${buildTopic(this.fullTopic, 'tele', topic)}#`);
+        }
+
+        listeners.push(listener);
+    }
+
+    public subscribeDiscovery(listener: DiscoveryListener) {
+        if (this.discoveryListeners.length == 0) {
+            this.connection.subscribe(`${DISCOVERY_PREFIX}#`);
+        }
+
+        this.discoveryListeners.push(listener);
+    }
+
+    public publish(topic: string, command: string, payload = '') {
+        const mqttTopic = buildTopic(this.fullTopic, 'cmnd', topic, command);
+        debug(`Publishing '${payload}' to ${mqttTopic}`);
+        this.connection.publish(mqttTopic, payload);
+    }
+
+    public request(topic: string, command: string, payload = '', timeoutMs = 5000): Promise<any> {
+        // One request per device at a time, otherwise a single result would answer several requests
+        const previous = this.pendingRequests[topic] || Promise.resolve();
+        const result = previous.then(() => this.requestNow(topic, command, payload, timeoutMs));
+        this.pendingRequests[topic] = result.catch(() => undefined);
+
+        return result;
+    }
+
+    public end() {
+        this.connection.end();
+    }
+
+    private requestNow(topic: string, command: string, payload: string, timeoutMs: number): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.removeListener(topic, listener);
+                reject(`No response from ${topic} for ${command} within ${timeoutMs} ms`);
+            }, timeoutMs);
+
+            const listener: MessageListener = (prefix, responseTopic, json) => {
+                // Plain value topics like stat/<topic>/POWER are followed by a json RESULT
+                if (prefix === 'stat' && json && typeof json === 'object' && matchesResponse(command, payload, responseTopic, json)) {
+                    clearTimeout(timeout);
+                    this.removeListener(topic, listener);
+                    resolve(json);
+                }
+            };
+
+            this.subscribe(topic, listener);
+            this.publish(topic, command, payload);
+        });
+    }
+
+    private removeListener(topic: string, listener: MessageListener) {
+        const listeners = this.listeners[topic];
+
+        if (listeners) {
+            this.listeners[topic] = listeners.filter(l => l !== listener);
+        }
+    }
+
+    private handleMessage(mqttTopic: string, message: string) {
+        if (mqttTopic.startsWith(DISCOVERY_PREFIX)) {
+            this.handleDiscoveryMessage(mqttTopic, message);
+            return;
+        }
+
+        const parsed = parseTopic(this.fullTopic, mqttTopic);
+
+        if (!parsed) {
+            debug(`Ignoring message on ${mqttTopic}`);
+            return;
+        }
+
+        const {
+            prefix,
+            topic,
+            command
+        } = parsed;
+
+        let payload: any = message;
+
+        try {
+            payload = JSON.parse(message);
+        } catch {
+        }
+
+        for (const listener of this.listeners[topic] || []) {
+            listener(prefix, command, payload);
+        }
+    }
+
+    private handleDiscoveryMessage(mqttTopic: string, message: string) {
+        // tasmota/discovery/<mac>/<type>
+        const [mac, type] = mqttTopic.substring(DISCOVERY_PREFIX.length).split('/');
+
+        if (!mac || !type || message === '') {
+            // Empty retained messages are used to remove a device
+            return;
+        }
+
+        let payload;
+
+        try {
+            payload = JSON.parse(message);
+        } catch (e) {
+            debug(`Invalid discovery message on ${mqttTopic}: ${e}`);
+            return;
+        }
+
+        for (const listener of this.discoveryListeners) {
+            listener(mac, type, payload);
+        }
+    }
+}
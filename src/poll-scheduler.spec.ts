@@ -0,0 +1,112 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { MAX_BACKOFF_MS, MAX_FAILURES, PollScheduler } from './poll-scheduler';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Poll scheduler', () => {
+    it('should skip a tick while the previous poll is running', async () => {
+        let polls = 0;
+        let finishPoll = () => { };
+
+        const scheduler = new PollScheduler('test', () => {
+            polls++;
+            return new Promise(resolve => finishPoll = resolve);
+        });
+
+        const firstTick = scheduler.tick();
+        expect(scheduler.isPolling()).to.be.true;
+        await scheduler.tick();
+        expect(polls).to.equal(1);
+
+        finishPoll();
+        await firstTick;
+        expect(scheduler.isPolling()).to.be.false;
+
+        const secondTick = scheduler.tick();
+        finishPoll();
+        await secondTick;
+        expect(polls).to.equal(2);
+    });
+});
+
+describe('Poll scheduler', () => {
+    it('should keep polling after a failed poll', async () => {
+        let polls = 0;
+
+        const scheduler = new PollScheduler('test', async () => {
+            polls++;
+            throw 'unreachable';
+        });
+
+        await scheduler.tick();
+        await scheduler.tick();
+        expect(polls).to.equal(2);
+        expect(scheduler.isPolling()).to.be.false;
+    });
+});
+
+describe('Poll scheduler', () => {
+    it('should report a device as unavailable after repeated failures', async () => {
+        let reachable = false;
+        const changes: boolean[] = [];
+
+        const scheduler = new PollScheduler('test', async () => {
+            if (!reachable) {
+                throw 'unreachable';
+            }
+        }, available => changes.push(available));
+
+        for (let i = 1; i < MAX_FAILURES; i++) {
+            await scheduler.tick(0);
+        }
+
+        expect(scheduler.isAvailable()).to.be.true;
+        await scheduler.tick(0);
+        expect(scheduler.isAvailable()).to.be.false;
+
+        reachable = true;
+        await scheduler.tick(Number.MAX_SAFE_INTEGER);
+        expect(scheduler.isAvailable()).to.be.true;
+        expect(changes).to.deep.equal([false, true]);
+    });
+});
+
+describe('Poll scheduler', () => {
+    it('should back off exponentially while a device is unavailable', async () => {
+        let polls = 0;
+
+        const scheduler = new PollScheduler('test', async () => {
+            polls++;
+            throw 'unreachable';
+        });
+
+        scheduler.start(1000);
+        scheduler.stop();
+
+        for (let i = 0; i < MAX_FAILURES; i++) {
+            await scheduler.tick(0);
+        }
+
+        expect(scheduler.getBackoff()).to.equal(2000);
+        await scheduler.tick(1999);
+        expect(polls).to.equal(MAX_FAILURES);
+        await scheduler.tick(2000);
+        expect(polls).to.equal(MAX_FAILURES + 1);
+        expect(scheduler.getBackoff()).to.equal(4000);
+
+        for (let i = 1; i <= 20; i++) {
+            await scheduler.tick(2000 + i * MAX_BACKOFF_MS);
+        }
+
+        expect(polls).to.equal(MAX_FAILURES + 21);
+
+        expect(scheduler.getBackoff()).to.equal(MAX_BACKOFF_MS);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { logError } from './errors';
+import { debug } from './logger';
+
+export const MAX_FAILURES = 3;
+export const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+export type AvailabilityListener = (available: boolean) => void;
+
+export class PollScheduler {
+    private timer?: NodeJS.Timeout;
+    private inFlight = false;
+    private intervalMs = 0;
+    private failures = 0;
+    private available = true;
+    private nextAttempt = 0;
+
+    constructor(private name: string, private poll: () => Promise<void>, private onAvailabilityChange: AvailabilityListener = () => { }) {
+    }
+
+    public start(intervalMs: number) {
+        this.stop();
+        this.intervalMs = intervalMs;
+        this.timer = setInterval(() => this.tick(), intervalMs);
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public isPolling() {
+        return this.inFlight;
+    }
+
+    public isAvailable() {
+        return this.available;
+    }
+
+    public async tick(now = Date.now()) {
+        // Slow devices must not pile up requests
+        if (this.inFlight) {
+            debug(`Skipping poll of ${this.name}, the previous one is still running`);
+            return;
+        }
+
+        if (now < this.nextAttempt) {
+            return;
+        }
+
+        this.inFlight = true;
+
+        try {
+            await this.poll();
+            this.handleSuccess();
+        } catch (e) {
+            logError(`Could not poll ${this.name}`, e);
+            this.handleFailure(now);
+        } finally {
+            this.inFlight = false;
+        }
+    }
+
+    public getBackoff() {
+        if (this.failures < MAX_FAILURES) {
+            return 0;
+        }
+
+        const backoff = this.intervalMs * Math.pow(2, this.failures - MAX_FAILURES + 1);
+
+        return Math.min(backoff, Math.max(MAX_BACKOFF_MS, this.intervalMs));
+    }
+
+    private handleSuccess() {
+        this.failures = 0;
+        this.nextAttempt = 0;
+
+        if (!this.available) {
+            debug(`${this.name} is reachable again`);
+            this.setAvailable(true);
+        }
+    }
+
+    private handleFailure(now: number) {
+        this.failures++;
+
+        if (this.failures < MAX_FAILURES) {
+            return;
+        }
+
+        if (this.available) {
+            console.warn(`${this.name} is not reachable after ${this.failures} attempts`);
+            this.setAvailable(false);
+        }
+
+        this.nextAttempt = now + this.getBackoff();
+        debug(`Next poll of ${this.name} in ${this.getBackoff()} ms`);
+    }
+
+    private setAvailable(available: boolean) {
+        this.available = available;
+
+        try {
+            this.onAvailabilityChange(available);
+        } catch (e) {
+            console.warn(`Could not update the availability of ${this.name}: ${e}`);
+        }
+    }
+}
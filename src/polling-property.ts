@@ -9,13 +9,12 @@
 import { Device, Property } from 'gateway-addon';
 
 export class PollingProperty<T> extends Property {
-    constructor(device: Device, name: string, propertyDescr: {}, private poll: () => Promise<void>) {
+    constructor(device: Device, name: string, propertyDescr: {}) {
         super(device, name, propertyDescr);
     }
     update(value: T) {
         this.setCachedValueAndNotify(value);
     }
-    public startPolling(intervalMs: number) {
-        setInterval(() => this.poll(), intervalMs);
+    public onState(_state: any) {
     }
 }
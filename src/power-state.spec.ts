@@ -0,0 +1,47 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { combinePowerStates, readPowerState } from './power-state';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Power state', () => {
+    it('should read the state of a single channel device', () => {
+        expect(readPowerState({ POWER: 'ON' }, '')).to.be.true;
+        expect(readPowerState({ POWER1: 'OFF' }, '')).to.be.false;
+        expect(readPowerState({ POWER: 'ON' }, '1')).to.be.true;
+        expect(readPowerState({ Dimmer: 50 }, '')).to.be.undefined;
+        expect(readPowerState(undefined, '')).to.be.undefined;
+    });
+});
+
+describe('Power state', () => {
+    it('should read the state of a single channel', () => {
+        expect(readPowerState({ POWER1: 'OFF', POWER2: 'ON' }, '2')).to.be.true;
+        expect(readPowerState({ POWER1: 'OFF', POWER2: 'ON' }, '1')).to.be.false;
+        // Only the first channel may be reported without index
+        expect(readPowerState({ POWER: 'ON' }, '2')).to.be.undefined;
+    });
+});
+
+describe('Power state', () => {
+    it('should only report all channels as on if every channel is on', () => {
+        expect(combinePowerStates([true, true])).to.be.true;
+        expect(combinePowerStates([true, false])).to.be.false;
+        expect(combinePowerStates([true, undefined])).to.be.undefined;
+        expect(combinePowerStates([])).to.be.undefined;
+    });
+});
+
+describe('Power state', () => {
+    it('should not derive the state of all channels from a partial message', () => {
+        // A result only contains the channel which changed
+        expect(readPowerState({ POWER2: 'ON', Dimmer: 0 }, '0')).to.be.undefined;
+        expect(combinePowerStates([readPowerState({ POWER1: 'OFF' }, '1'), readPowerState({ POWER2: 'ON' }, '2')])).to.be.false;
+    });
+});
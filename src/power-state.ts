@@ -0,0 +1,37 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+/**
+ * Reads the state of a power channel from a state or result message.
+ * @param channel '' for single channel devices or the number of the channel
+ */
+export function readPowerState(state: any, channel: string): boolean | undefined {
+    if (!state) {
+        return undefined;
+    }
+
+    let power = state[`POWER${channel}`];
+
+    if (power === undefined && (channel === '' || channel === '1')) {
+        power = state.POWER ?? state.POWER1;
+    }
+
+    return power === undefined ? undefined : power === 'ON';
+}
+
+/**
+ * Combines the states of the single channels into the state of all channels.
+ * Messages may only contain the channels which changed, so the states have to be the last known ones of every channel.
+ */
+export function combinePowerStates(states: (boolean | undefined)[]): boolean | undefined {
+    if (states.length == 0 || states.some(state => state === undefined)) {
+        return undefined;
+    }
+
+    return states.every(state => state);
+}
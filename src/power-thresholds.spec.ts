@@ -0,0 +1,55 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { parsePowerThresholds } from './device-options';
+import { PowerMonitor } from './power-thresholds';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Power thresholds', () => {
+    it('should only report changes which last the minimum duration', () => {
+        const monitor = new PowerMonitor(parsePowerThresholds({ start: 10, stop: 3, minDuration: 60 })!);
+
+        expect(monitor.update(2000, 0)).to.deep.equal([]);
+        // A short spike does not start the appliance
+        expect(monitor.update(2, 30000)).to.deep.equal([]);
+        expect(monitor.update(2000, 40000)).to.deep.equal([]);
+        expect(monitor.update(2000, 100000)).to.deep.equal(['started']);
+        expect(monitor.isRunning()).to.be.true;
+
+        expect(monitor.update(1, 110000)).to.deep.equal([]);
+        expect(monitor.update(1, 170000)).to.deep.equal(['finished']);
+        expect(monitor.isRunning()).to.be.false;
+    });
+});
+
+describe('Power thresholds', () => {
+    it('should ignore readings within the hysteresis', () => {
+        const monitor = new PowerMonitor(parsePowerThresholds({ start: 10, stop: 3 })!);
+
+        expect(monitor.update(12, 0)).to.deep.equal(['started']);
+        expect(monitor.update(5, 1000)).to.deep.equal([]);
+        expect(monitor.update(9, 2000)).to.deep.equal([]);
+        expect(monitor.update(2, 3000)).to.deep.equal(['finished']);
+        expect(monitor.update(5, 4000)).to.deep.equal([]);
+    });
+});
+
+describe('Power thresholds', () => {
+    it('should report an overload once until the reading is back to normal', () => {
+        const monitor = new PowerMonitor(parsePowerThresholds({ overload: 2500, overloadDuration: 2 })!);
+
+        expect(monitor.update(3000, 0)).to.deep.equal([]);
+        expect(monitor.update(3000, 2000)).to.deep.equal(['overload']);
+        expect(monitor.update(3000, 3000)).to.deep.equal([]);
+        expect(monitor.update(2000, 4000)).to.deep.equal([]);
+        expect(monitor.update(3000, 5000)).to.deep.equal([]);
+        expect(monitor.update(3000, 7000)).to.deep.equal(['overload']);
+        expect(monitor.isRunning()).to.be.false;
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+export type ThresholdReading = 'power' | 'current';
+
+export type ThresholdEvent = 'started' | 'finished' | 'overload';
+
+export interface PowerThresholds {
+    // The reading the thresholds apply to
+    reading: ThresholdReading,
+    // The appliance is running above the start threshold and finished below the stop threshold
+    start?: number,
+    stop?: number,
+    // Seconds a threshold has to be crossed before the appliance counts as started or finished
+    minDuration: number,
+    overload?: number,
+    // Seconds the overload threshold has to be exceeded
+    overloadDuration: number,
+    switchOffOnOverload: boolean
+}
+
+/**
+ * Turns noisy readings into started, finished and overload events.
+ */
+export class PowerMonitor {
+    private running = false;
+    private overloaded = false;
+    // The time since when the reading is beyond the threshold of the next state
+    private changingSince?: number;
+    private overloadSince?: number;
+
+    constructor(private thresholds: PowerThresholds) {
+    }
+
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    public update(value: number, now = Date.now()): ThresholdEvent[] {
+        return [
+            ...this.updateRunning(value, now),
+            ...this.updateOverload(value, now)
+        ];
+    }
+
+    private updateRunning(value: number, now: number): ThresholdEvent[] {
+        const {
+            start,
+            stop,
+            minDuration
+        } = this.thresholds;
+
+        if (start === undefined || stop === undefined) {
+            return [];
+        }
+
+        const changing = this.running ? value < stop : value > start;
+
+        if (!changing) {
+            this.changingSince = undefined;
+            return [];
+        }
+
+        if (this.changingSince === undefined) {
+            this.changingSince = now;
+        }
+
+        if (now - this.changingSince < minDuration * 1000) {
+            return [];
+        }
+
+        this.changingSince = undefined;
+        this.running = !this.running;
+
+        return [this.running ? 'started' : 'finished'];
+    }
+
+    private updateOverload(value: number, now: number): ThresholdEvent[] {
+        const {
+            overload,
+            overloadDuration
+        } = this.thresholds;
+
+        if (overload === undefined) {
+            return [];
+        }
+
+        if (value <= overload) {
+            // Report the next overload only after the reading went back to normal
+            this.overloaded = false;
+            this.overloadSince = undefined;
+            return [];
+        }
+
+        if (this.overloaded) {
+            return [];
+        }
+
+        if (this.overloadSince === undefined) {
+            this.overloadSince = now;
+        }
+
+        if (now - this.overloadSince < overloadDuration * 1000) {
+            return [];
+        }
+
+        this.overloaded = true;
+
+        return ['overload'];
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { MockTasmotaClient } from './mock-tasmota-client';
+import { PowerTimer } from './power-timer';
+import { expect } from 'chai';
+import 'mocha';
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Power timer', () => {
+    it('should switch off after the duration without touching PulseTime', async () => {
+        const client = new MockTasmotaClient();
+        const timer = new PowerTimer(client);
+
+        await timer.switchOnFor('2', 0.01);
+        expect(client.commands).to.deep.equal(['Power2 ON']);
+        expect(timer.isRunning('2')).to.be.true;
+
+        await wait(30);
+        expect(client.commands).to.deep.equal(['Power2 ON', 'Power2 OFF']);
+        expect(timer.isRunning('2')).to.be.false;
+    });
+});
+
+describe('Power timer', () => {
+    it('should restart the timer when the action is run again', async () => {
+        const client = new MockTasmotaClient();
+        const timer = new PowerTimer(client);
+
+        await timer.switchOnFor('', 0.02);
+        await wait(10);
+        await timer.switchOnFor('', 0.05);
+        await wait(30);
+        expect(client.commands).to.deep.equal(['Power1 ON', 'Power1 ON']);
+
+        await wait(50);
+        expect(client.commands).to.deep.equal(['Power1 ON', 'Power1 ON', 'Power1 OFF']);
+    });
+});
+
+describe('Power timer', () => {
+    it('should cancel the timer when the power is switched manually', async () => {
+        const client = new MockTasmotaClient();
+        const timer = new PowerTimer(client);
+
+        await timer.switchOnFor('1', 0.01);
+        await timer.switchOnFor('2', 0.01);
+        // The single channel property and the channel of the action address the same relay
+        timer.cancel('');
+        expect(timer.isRunning('1')).to.be.false;
+        expect(timer.isRunning('2')).to.be.true;
+
+        timer.cancel('0');
+        expect(timer.isRunning('2')).to.be.false;
+
+        await wait(30);
+        expect(client.commands).to.deep.equal(['Power1 ON', 'Power2 ON']);
+    });
+});
+
+describe('Power timer', () => {
+    it('should cancel the timer when the device reports the channel as off', async () => {
+        const client = new MockTasmotaClient();
+        const timer = new PowerTimer(client);
+
+        await timer.switchOnFor('1', 0.01);
+        await timer.switchOnFor('2', 0.01);
+        timer.onState({ POWER1: 'ON', POWER2: 'OFF' });
+        expect(timer.isRunning('1')).to.be.true;
+        expect(timer.isRunning('2')).to.be.false;
+
+        await wait(30);
+        expect(client.commands).to.deep.equal(['Power1 ON', 'Power2 ON', 'Power1 OFF']);
+    });
+});
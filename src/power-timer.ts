@@ -0,0 +1,80 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { logError } from './errors';
+import { debug } from './logger';
+import { readPowerState } from './power-state';
+import { TasmotaClient } from './tasmota-client';
+
+// Same limit as PulseTime
+export const MAX_ON_DURATION = 64800;
+
+// Power without index switches the first channel
+function normalizeChannel(channel: string): string {
+    return channel === '' ? '1' : channel;
+}
+
+/**
+ * Switches power channels off after a duration.
+ * The timers run in the adapter, so they neither block the command queue of the device nor change its PulseTime.
+ */
+export class PowerTimer {
+    private timeouts: { [channel: string]: NodeJS.Timeout } = {};
+
+    constructor(private client: TasmotaClient) {
+    }
+
+    public async switchOnFor(powerChannel: string, seconds: number) {
+        const channel = normalizeChannel(powerChannel);
+
+        // A new run replaces the running one
+        this.cancel(channel);
+        await this.client.power(channel, true);
+
+        const duration = Math.max(0, Math.min(MAX_ON_DURATION, seconds));
+
+        this.timeouts[channel] = setTimeout(() => {
+            delete this.timeouts[channel];
+            debug(`Switching off channel ${channel} of ${this.client.host} after ${duration} seconds`);
+            this.client.power(channel, false)
+                .catch(e => logError(`Could not switch off channel ${channel} of ${this.client.host}`, e));
+        }, duration * 1000);
+    }
+
+    public isRunning(channel: string): boolean {
+        return this.timeouts[normalizeChannel(channel)] !== undefined;
+    }
+
+    /**
+     * Cancels the timer of the channel, '0' cancels the timers of all channels.
+     */
+    public cancel(channel: string) {
+        const channels = channel === '0' ? Object.keys(this.timeouts) : [normalizeChannel(channel)];
+
+        for (const channel of channels) {
+            const timeout = this.timeouts[channel];
+
+            if (timeout !== undefined) {
+                clearTimeout(timeout);
+                delete this.timeouts[channel];
+                debug(`Cancelled the timer of channel ${channel} of ${this.client.host}`);
+            }
+        }
+    }
+
+    /**
+     * Cancels the timers of all channels which have been switched off in the meantime.
+     */
+    public onState(state: any) {
+        for (const channel of Object.keys(this.timeouts)) {
+            if (readPowerState(state, channel) === false) {
+                this.cancel(channel);
+            }
+        }
+    }
+}
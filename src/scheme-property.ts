@@ -0,0 +1,43 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device } from 'gateway-addon';
+import { TasmotaClient } from './tasmota-client';
+import { WritableProperty } from './writable-property';
+
+// Indexed by the number of the scheme
+const SCHEMES = [
+    'none',
+    'wake up',
+    'cycle up',
+    'cycle down',
+    'random'
+];
+
+export class SchemeProperty extends WritableProperty<string> {
+    /**
+     * @param hasColor the cycle and random schemes are only available on color lights
+     */
+    constructor(device: Device, client: TasmotaClient, hasColor: boolean) {
+        super(device, 'scheme', {
+            type: 'string',
+            title: 'Effect',
+            description: 'The light scheme of the device',
+            enum: hasColor ? SCHEMES : SCHEMES.slice(0, 2)
+        }, async (value) => {
+            await client.scheme(SCHEMES.indexOf(value));
+        });
+    }
+    public onState(state: any) {
+        const scheme = SCHEMES[state?.Scheme];
+
+        if (scheme !== undefined) {
+            this.update(scheme);
+        }
+    }
+}
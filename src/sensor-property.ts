@@ -0,0 +1,50 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device, Property } from 'gateway-addon';
+import { Reading, sensorPropertyId } from './telemetry';
+
+const PROPERTY_TYPES: { [type: string]: string } = {
+    temperature: 'TemperatureProperty',
+    humidity: 'HumidityProperty',
+    pressure: 'BarometricPressureProperty',
+    seaPressure: 'BarometricPressureProperty',
+    co2: 'ConcentrationProperty',
+    tvoc: 'ConcentrationProperty'
+};
+
+export class SensorProperty extends Property {
+    /**
+     * @param level whether the reading is the level of a multi level sensor
+     */
+    constructor(device: Device, public reading: Reading, level = false) {
+        super(device, sensorPropertyId(reading), {
+            '@type': level ? 'LevelProperty' : PROPERTY_TYPES[reading.type],
+            type: 'number',
+            unit: reading.unit,
+            multipleOf: 0.1,
+            title: reading.sensor === reading.field ? reading.sensor : `${reading.sensor} ${reading.field}`,
+            readOnly: true
+        });
+
+        this.setCachedValueAndNotify(reading.value);
+    }
+
+    update(readings: Reading[]) {
+        const {
+            sensor,
+            field
+        } = this.reading;
+
+        const reading = readings.find(reading => reading.sensor === sensor && reading.field === field);
+
+        if (reading) {
+            this.setCachedValueAndNotify(reading.value);
+        }
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Action, Adapter, Device, Property } from 'gateway-addon';
+import { addCommandAction, executeAction, performCommandAction } from './device-actions';
+import { availabilityListener } from './availability';
+import { PollScheduler } from './poll-scheduler';
+import { PollingProperty } from './polling-property';
+import { parseDirection, ShutterConfig, ShutterDirection } from './shutter';
+import { TasmotaClient } from './tasmota-client';
+import { WritableProperty } from './writable-property';
+
+export class ShutterPositionProperty extends WritableProperty<number> {
+    constructor(device: Device, client: TasmotaClient, private index: number) {
+        super(device, 'position', {
+            '@type': 'LevelProperty',
+            type: 'integer',
+            unit: 'percent',
+            minimum: 0,
+            maximum: 100,
+            title: 'Position',
+            description: 'The position of the shutter (0 is closed)'
+        }, async (value) => {
+            await client.send(`ShutterPosition${index} ${value}`);
+        });
+    }
+
+    public onState(state: any) {
+        const position = state?.[`Shutter${this.index}`]?.Position;
+
+        if (typeof position === 'number') {
+            this.update(position);
+        }
+    }
+}
+
+export class ShutterDirectionProperty extends PollingProperty<ShutterDirection> {
+    constructor(device: Device, private index: number) {
+        super(device, 'direction', {
+            type: 'string',
+            title: 'Direction',
+            enum: [
+                'opening',
+                'closing',
+                'stopped'
+            ],
+            readOnly: true
+        });
+    }
+
+    public onState(state: any) {
+        const direction = state?.[`Shutter${this.index}`]?.Direction;
+
+        if (typeof direction === 'number') {
+            this.update(parseDirection(direction));
+        }
+    }
+}
+
+export class ShutterTiltProperty extends WritableProperty<number> {
+    constructor(device: Device, client: TasmotaClient, private index: number) {
+        super(device, 'tilt', {
+            type: 'integer',
+            unit: 'degree',
+            minimum: -90,
+            maximum: 90,
+            title: 'Tilt',
+            description: 'The tilt of the slats'
+        }, async (value) => {
+            await client.send(`ShutterTilt${index} ${value}`);
+        });
+    }
+
+    public onState(state: any) {
+        const tilt = state?.[`Shutter${this.index}`]?.Tilt;
+
+        if (typeof tilt === 'number') {
+            this.update(tilt);
+        }
+    }
+}
+
+export class ShutterDevice extends Device {
+    private positionProperty: ShutterPositionProperty;
+    private directionProperty: ShutterDirectionProperty;
+    private tiltProperty?: ShutterTiltProperty;
+    private scheduler: PollScheduler;
+
+    constructor(adapter: Adapter, id: string, private client: TasmotaClient, private shutter: ShutterConfig) {
+        super(adapter, id);
+        this['@context'] = 'https://iot.mozilla.org/schemas/';
+        this['@type'] = ['MultiLevelSwitch'];
+        this.name = id.replace('.local', '');
+
+        const {
+            index
+        } = shutter;
+
+        this.positionProperty = new ShutterPositionProperty(this, client, index);
+        this.addProperty(this.positionProperty);
+        this.directionProperty = new ShutterDirectionProperty(this, index);
+        this.addProperty(this.directionProperty);
+
+        if (shutter.hasTilt) {
+            this.tiltProperty = new ShutterTiltProperty(this, client, index);
+            this.addProperty(this.tiltProperty);
+        }
+
+        this.addAction('open', {
+            title: 'Open',
+            description: 'Open the shutter completely'
+        });
+
+        this.addAction('close', {
+            title: 'Close',
+            description: 'Close the shutter completely'
+        });
+
+        this.addAction('stop', {
+            title: 'Stop',
+            description: 'Stop the movement of the shutter'
+        });
+
+        addCommandAction(this);
+        this.scheduler = new PollScheduler(this.name, () => this.poll(), availabilityListener(this));
+    }
+
+    addProperty(property: Property) {
+        this.properties.set(property.name, property);
+    }
+
+    public startPolling(intervalMs: number) {
+        this.scheduler.start(intervalMs);
+    }
+
+    public async poll() {
+        // The response contains position, direction and tilt of the shutter
+        this.handleState(await this.client.query(`ShutterPosition${this.shutter.index}`));
+    }
+
+    public handleState(state: any) {
+        this.positionProperty.onState(state);
+        this.directionProperty.onState(state);
+        this.tiltProperty?.onState(state);
+    }
+
+    public handleSensor(sensor: any) {
+        // The shutter state is part of the sensor data as well
+        this.handleState(sensor);
+    }
+
+    async performAction(action: Action) {
+        const {
+            index
+        } = this.shutter;
+
+        let command;
+
+        switch (action.name) {
+            case 'open':
+                command = `ShutterOpen${index}`;
+                break;
+            case 'close':
+                command = `ShutterClose${index}`;
+                break;
+            case 'stop':
+                command = `ShutterStop${index}`;
+                break;
+            default:
+                await performCommandAction(this, this.client, action);
+                return;
+        }
+
+        await executeAction(this.client, action, command);
+    }
+}
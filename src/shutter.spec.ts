@@ -0,0 +1,50 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { parseDirection, parseStatusSht, shuttersFromRelays } from './shutter';
+import { RelayType } from './discovery';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Shutter', () => {
+    it('should not fail on missing shutter status', () => {
+        expect(parseStatusSht(undefined)).to.have.length(0);
+        expect(parseStatusSht({})).to.have.length(0);
+    });
+});
+
+describe('Shutter', () => {
+    it('should parse the shutter status', () => {
+        const shutters = parseStatusSht({
+            SHT0: { Relay1: 1, Relay2: 2, Open: 1000, Close: 1000, '50perc': 50, Delete: 0, Opt: '0000', Calib: [150, 350, 550, 750, 1000], Mode: '0', TiltConfig: [0, 0, 0, 0, 0] },
+            SHT1: { Relay1: 3, Open: 1000, Close: 1000, TiltConfig: [-90, 90, 10, 0, 0] }
+        });
+
+        expect(shutters).to.deep.equal([
+            { index: 1, relays: [1, 2], hasTilt: false },
+            { index: 2, relays: [3, 4], hasTilt: true }
+        ]);
+    });
+});
+
+describe('Shutter', () => {
+    it('should pair the shutter relays of the discovery config', () => {
+        const relays = [RelayType.Relay, RelayType.Shutter, RelayType.Shutter, RelayType.Shutter, RelayType.Shutter, RelayType.None];
+        const shutters = shuttersFromRelays(relays);
+        expect(shutters.map(shutter => shutter.relays)).to.deep.equal([[2, 3], [4, 5]]);
+        expect(shutters.map(shutter => shutter.index)).to.deep.equal([1, 2]);
+    });
+});
+
+describe('Shutter', () => {
+    it('should translate the direction', () => {
+        expect(parseDirection(1)).to.equal('opening');
+        expect(parseDirection(-1)).to.equal('closing');
+        expect(parseDirection(0)).to.equal('stopped');
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { RelayType } from './discovery';
+
+export interface ShutterConfig {
+    index: number,
+    relays: number[],
+    hasTilt: boolean
+}
+
+export type ShutterDirection = 'opening' | 'closing' | 'stopped';
+
+export function parseStatusSht(statusSht: any): ShutterConfig[] {
+    const shutters: ShutterConfig[] = [];
+
+    if (!statusSht || typeof statusSht !== 'object') {
+        return shutters;
+    }
+
+    // The shutters are numbered from SHT0 but addressed from Shutter1
+    for (const [key, value] of Object.entries<any>(statusSht)) {
+        const match = /^SHT(\d+)$/.exec(key);
+        const relay1 = value?.Relay1;
+
+        if (match && typeof relay1 === 'number' && relay1 > 0) {
+            const relay2 = typeof value.Relay2 === 'number' ? value.Relay2 : relay1 + 1;
+            const tiltConfig = value.TiltConfig;
+
+            shutters.push({
+                index: parseInt(match[1]) + 1,
+                relays: [relay1, relay2],
+                hasTilt: Array.isArray(tiltConfig) && tiltConfig[0] !== tiltConfig[1]
+            });
+        }
+    }
+
+    return shutters;
+}
+
+export function shuttersFromRelays(relays: RelayType[]): ShutterConfig[] {
+    const shutters: ShutterConfig[] = [];
+
+    for (let i = 0; i < relays.length; i++) {
+        // Every shutter uses a pair of relays for up and down
+        if (relays[i] === RelayType.Shutter && relays[i + 1] === RelayType.Shutter) {
+            shutters.push({
+                index: shutters.length + 1,
+                relays: [i + 1, i + 2],
+                hasTilt: false
+            });
+
+            i++;
+        }
+    }
+
+    return shutters;
+}
+
+export function parseDirection(direction: number): ShutterDirection {
+    if (direction > 0) {
+        return 'opening';
+    }
+
+    if (direction < 0) {
+        return 'closing';
+    }
+
+    return 'stopped';
+}
@@ -0,0 +1,30 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device } from 'gateway-addon';
+import { TasmotaClient } from './tasmota-client';
+import { WritableProperty } from './writable-property';
+
+export class SpeedProperty extends WritableProperty<number> {
+    constructor(device: Device, client: TasmotaClient) {
+        super(device, 'speed', {
+            type: 'integer',
+            title: 'Speed',
+            description: 'The duration of a fade from off to full brightness in steps of 0.5 seconds',
+            minimum: 1,
+            maximum: 40
+        }, async (value) => {
+            await client.speed(value);
+        });
+    }
+    public onState(state: any) {
+        if (typeof state?.Speed === 'number') {
+            this.update(state.Speed);
+        }
+    }
+}
@@ -7,34 +7,77 @@
 'use strict';
 
 import { Adapter, Database } from 'gateway-addon';
-import fetch from 'node-fetch';
 import { Browser, tcp } from 'dnssd';
 import { isIPv4 } from 'net';
-import { PowerPlug, OnOffProperty } from './power-plug';
-import { authConfig, getData, getStatus } from './api';
-import { ColorCtLight } from "./color-ct-light";
-import { ColorLight } from "./color-light";
-import { ColorTemperatureLight } from "./color-temperature-light";
-import { DimmableLight } from "./dimmable-light";
+import { TasmotaDevice, OnOffProperty } from './tasmota-device';
+import { configureRequests } from './api';
+import { Credentials, TasmotaClient } from './tasmota-client';
+import { CredentialStore } from './credential-store';
+import { EnergyStore } from './energy-store';
+import { InputConfig } from './inputs';
+import { ShutterDevice } from './shutter-device';
+import { parseStatusSht, ShutterConfig, shuttersFromRelays } from './shutter';
 import crypto from 'crypto';
-import { setup, debug } from './logger';
-import { DataResult } from './table-parser';
+import { setup, debug, addSecret } from './logger';
+import { isSensorReading, parseStatusSns, Reading } from './telemetry';
+import { TasmotaMqttClient } from './mqtt-client';
+import { availabilityListener } from './availability';
+import { DeviceTitles, parseDeviceNames } from './device-names';
+import { bindTitles } from './titles';
+import { CommandRejectedError } from './errors';
+import { deviceIdFromMac, normalizeMac, shouldUpdateHost } from './device-identity';
+import { CtRange, ctRangeFromKelvin, DEFAULT_CT_RANGE } from './ct-conversion';
+import { DeviceOptions, DeviceType, getDeviceOptions, getLightTypeOverride } from './device-options';
+import { detectLight, getCapabilities, LightInfo, lightInfoFromDiscovery, lightInfoFromType } from './capabilities';
+import { DiscoveryConfig, getLightChannels, getRelayChannels, LightType, parseDiscoveryConfig, parseDiscoverySensors } from './discovery';
+
+type GatewayDevice = TasmotaDevice | ShutterDevice;
 
 export class TasmotaAdapter extends Adapter {
   private httpBrowser?: Browser;
-  private devices: { [key: string]: PowerPlug } = {};
+  private clients: { [id: string]: TasmotaClient } = {};
+  private mqttClient?: TasmotaMqttClient;
+  private discoveredSensors: { [mac: string]: any } = {};
+  private credentialStore: CredentialStore;
+  private credentialsLoaded: Promise<void>;
+  private energyStore: EnergyStore;
+  private energyLoaded: Promise<void>;
+  private configuredDevices: any[] = [];
+  private loaded: Promise<void>;
 
   constructor(addonManager: any, private manifest: any) {
     super(addonManager, manifest.display_name, manifest.id);
     addonManager.addAdapter(this);
 
     const {
-      logging
+      logging,
+      mqtt,
+      requestTimeout,
+      retries
     } = manifest.moziot.config;
 
     setup(logging?.debug);
+    addSecret(mqtt?.password);
 
-    this.load();
+    configureRequests({
+      timeoutMs: requestTimeout,
+      retries
+    });
+
+    if (mqtt?.enabled === true && mqtt.url) {
+      this.mqttClient = TasmotaMqttClient.connect(mqtt);
+      this.mqttClient.subscribeDiscovery((mac, type, payload) => this.handleDiscoveryMessage(mac, type, payload));
+    }
+
+    this.credentialStore = new CredentialStore(manifest.name);
+    this.credentialsLoaded = this.credentialStore.load()
+      .catch(e => console.warn(`Could not load the stored passwords: ${e}`));
+
+    this.energyStore = new EnergyStore(manifest.name);
+    this.energyLoaded = this.energyStore.load()
+      .catch(e => console.warn(`Could not load the energy history: ${e}`));
+
+    this.loaded = this.loadDevices();
     this.startDiscovery();
 
     setTimeout(() => {
@@ -45,35 +88,55 @@ export class TasmotaAdapter extends Adapter {
   public startPairing(_timeoutSeconds: number) {
     debug('Start pairing');
     this.startDiscovery();
-    this.load();
+    this.loaded = this.loadDevices();
+  }
+
+  private loadDevices(): Promise<void> {
+    return this.load()
+      .catch(e => console.warn(`Could not load the devices from the config: ${e}`));
   }
 
   private async load() {
     debug(`Loading devices from config`);
 
     const {
-      pollInterval
+      storePasswordsInDatabase
     } = this.manifest.moziot.config;
 
+    await this.credentialsLoaded;
     const db = new Database(this.manifest.name);
     await db.open();
     const config = await db.loadConfig();
 
+    this.configuredDevices = config.devices || [];
+
+    for (const device of this.configuredDevices) {
+      if (!device.id) {
+        device.id = `${crypto.randomBytes(16).toString('hex')}`;
+        debug(`Adding id for device at ${device.hostname}`);
+      }
+    }
+
+    if (storePasswordsInDatabase === true) {
+      await this.credentialStore.takeOver(config);
+    }
+
     if (config.devices) {
       for (const device of config.devices) {
         const {
           hostname,
           port,
-          password
+          topic,
+          mac
         } = device;
 
-        if (!device.id) {
-          device.id = `${crypto.randomBytes(16).toString('hex')}`;
-          debug(`Adding id for device at ${hostname}`);
-        }
+        const client = new TasmotaClient(port ? `${hostname}:${port}` : hostname, this.getCredentials(device));
 
-        const url = `${hostname}:${port}`;
-        await this.createDevice(url, hostname, hostname, password, pollInterval);
+        try {
+          device.mac = await this.createDevice(client, hostname, getDeviceOptions(this.manifest.moziot.config, device), topic, undefined, mac) || mac;
+        } catch (e) {
+          console.warn(`Could not create device for ${hostname}: ${e}`);
+        }
       }
     }
 
@@ -103,93 +166,392 @@ export class TasmotaAdapter extends Adapter {
   }
 
   private async handleService(name: string, host: string, port: number) {
-    const {
-      pollInterval,
-      password
-    } = this.manifest.moziot.config;
+    // Devices from the config must be created with their settings before discovery can claim them
+    await this.loaded;
+    const device = this.findConfiguredDevice(undefined, [name, host]);
+    const client = new TasmotaClient(`${host}:${port}`, this.getCredentials(device));
 
-    const url = `${host}:${port}`;
+    debug(`Probing ${client.host}`);
 
-    debug(`Probing ${url}`);
-
-    const result = await fetch(`http://${url}`, authConfig(password));
-
-    if (result.status == 200) {
-      const body = await result.text();
+    try {
+      const body = await client.getPage();
 
       if (body.indexOf('Tasmota') >= 0) {
         debug(`Discovered Tasmota at ${name}`);
-        await this.createDevice(url, name, host, password, pollInterval);
+        await this.createDevice(client, name, getDeviceOptions(this.manifest.moziot.config, device), device?.topic);
       } else {
         debug(`${name} seems not to be a Tasmota device`);
       }
-    } else {
-      debug(`${name} responded with ${result.statusText} (${result.status})`);
+    } catch (e) {
+      debug(`Could not probe ${name}: ${e}`);
     }
   }
 
-  private async createDevice(url: string, name: string, host: string, password: string, pollInterval: number) {
-    let existingDevice = this.devices[name];
+  private async handleDiscoveryMessage(mac: string, type: string, payload: any) {
+    switch (type) {
+      case 'sensors':
+        this.discoveredSensors[mac] = parseDiscoverySensors(payload);
+        break;
+      case 'config':
+        const config = parseDiscoveryConfig(payload);
+
+        if (!config) {
+          debug(`Invalid discovery config for ${mac}: ${JSON.stringify(payload)}`);
+          return;
+        }
 
-    if (!existingDevice) {
-      debug(`Creating device ${name} (${host})`);
-      let data: DataResult = {};
+        debug(`Discovered Tasmota ${config.hostname} (${config.mac}) via mqtt`);
 
+        const {
+          mqtt
+        } = this.manifest.moziot.config;
+
+        if (config.fullTopic && mqtt.fullTopic && config.fullTopic !== mqtt.fullTopic) {
+          console.warn(`The full topic of ${config.hostname} (${config.fullTopic}) does not match the configured one (${mqtt.fullTopic})`);
+        }
+
+        try {
+          await this.loaded;
+          const device = this.findConfiguredDevice(config.mac, [config.hostname, `${config.hostname}.local`, config.ip]);
+          await this.createDevice(new TasmotaClient(config.ip, this.getCredentials(device)), `${config.hostname}.local`, getDeviceOptions(this.manifest.moziot.config, device), device?.topic || config.topic, config);
+        } catch (e) {
+          console.warn(`Could not create device for ${config.hostname}: ${e}`);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Returns the entry of the device list which belongs to a discovered device.
+   */
+  private findConfiguredDevice(mac?: string, hosts: string[] = []): any | undefined {
+    const normalizedMac = normalizeMac(mac);
+
+    return this.configuredDevices.find(device => {
+      if (normalizedMac && normalizeMac(device.mac) === normalizedMac) {
+        return true;
+      }
+
+      return hosts.some(host => host && device.hostname === host);
+    });
+  }
+
+  /**
+   * Returns the credentials of an entry of the device list or the default ones.
+   */
+  private getCredentials(device?: any): Credentials {
+    const defaults = this.getDefaultCredentials();
+
+    if (!device) {
+      return defaults;
+    }
+
+    return {
+      username: device.username || defaults.username,
+      password: device.password || this.credentialStore.getPassword(device.id),
+      authMode: device.authMode || defaults.authMode
+    };
+  }
+
+  private getDefaultCredentials(): Credentials {
+    const {
+      username,
+      password,
+      authMode
+    } = this.manifest.moziot.config;
+
+    return {
+      username,
+      password: password || this.credentialStore.getDefaultPassword(),
+      authMode
+    };
+  }
+
+  /**
+   * Creates the devices for a Tasmota unless its mac address is already known.
+   * Returns the mac address of the Tasmota if it could be determined.
+   */
+  private async createDevice(client: TasmotaClient, name: string, options: DeviceOptions, topic?: string, discoveryConfig?: DiscoveryConfig, knownMac?: string): Promise<string | undefined> {
+    if (Object.values(this.clients).some(knownClient => knownClient.host === client.host)) {
+      return knownMac;
+    }
+
+    const mac = normalizeMac(knownMac || discoveryConfig?.mac) || await this.getMac(client);
+    // Fall back to the name if the device does not report its mac address
+    const id = mac ? deviceIdFromMac(mac) : name;
+    const knownClient = this.clients[id];
+
+    if (knownClient) {
+      await this.updateHost(knownClient, client.host, mac);
+      return mac;
+    }
+
+    // Reserve the id before talking to the device as discovery and config may race for it
+    this.clients[id] = client;
+
+    try {
+      await this.createDevices(id, client, name, options, topic, discoveryConfig);
+    } catch (e) {
+      delete this.clients[id];
+      throw e;
+    }
+
+    return mac;
+  }
+
+  private async createDevices(id: string, client: TasmotaClient, name: string, options: DeviceOptions, topic?: string, discoveryConfig?: DiscoveryConfig) {
+    debug(`Creating device ${name} (${client.host}) with id ${id}`);
+    let readings: Reading[] = [];
+    const discoveredSensors = discoveryConfig && this.discoveredSensors[discoveryConfig.mac];
+
+    if (discoveredSensors) {
+      readings = parseStatusSns(discoveredSensors);
+    } else {
       try {
-        data = await getData(url, password);
+        // Status 0 contains the sensor data as well
+        readings = await client.getTelemetry(['Status 0', 'Status 10', 'Status 8']);
       } catch (e) {
         console.warn(`Could not get data: ${e}`);
       }
+    }
 
-      const channels = await OnOffProperty.getAvailableChannels(host, password);
-      const device = new PowerPlug(this, name, this.manifest, host, password, data, channels);
-      this.devices[name] = device;
-      this.handleDeviceAdded(device);
-      device.startPolling(Math.max(pollInterval || 1000, 500));
-
-      const colorResponse = await getStatus(host, password, 'Color');
-      const colorResult = await colorResponse.json();
-      const color: string = colorResult?.Color || "";
-
-      const {
-        experimental
-      } = this.manifest.moziot.config;
-
-      switch (color.length) {
-        case 2:
-          debug('Found dimmable light');
-          const dimmableLight = new DimmableLight(this, `${name}-light`, host, password);
-          this.handleDeviceAdded(dimmableLight);
-          dimmableLight.startPolling(Math.max(pollInterval || 1000, 500));
-          break;
-        case 4:
-          debug('Found color temperature light');
-          const colorTemperatureLight = new ColorTemperatureLight(this, `${name}-light`, host, password);
-          this.handleDeviceAdded(colorTemperatureLight);
-          colorTemperatureLight.startPolling(Math.max(pollInterval || 1000, 500));
-          break;
-        case 6:
-        case 8:
-          debug('Found color light');
-          const colorDevice = new ColorLight(this, `${name}-color`, host, password, this.manifest);
-          this.handleDeviceAdded(colorDevice);
-          colorDevice.startPolling(Math.max(pollInterval || 1000, 500));
-          break;
-        case 10:
-          let device;
-
-          if (experimental?.colorMode) {
-            device = new ColorCtLight(this, `${name}-color`, host, password, this.manifest);
-          } else {
-            device = new ColorLight(this, `${name}-color`, host, password, this.manifest);
-          }
-
-          debug(`Found ${device.constructor.name}`);
-          this.handleDeviceAdded(device);
-          device.startPolling(Math.max(pollInterval || 1000, 500));
-          break;
+    if (this.mqttClient) {
+      topic = topic || await this.getTopic(client);
+
+      if (topic) {
+        debug(`Using mqtt topic ${topic} for ${name}`);
+        client.useMqtt(this.mqttClient, topic);
       }
     }
+
+    const {
+      deviceType
+    } = options;
+
+    const shutters = discoveryConfig ? shuttersFromRelays(discoveryConfig.relays) : await this.getShutters(client);
+    const shutterRelays = ([] as number[]).concat(...shutters.map(shutter => shutter.relays));
+    const availableChannels = options.channels || await this.getRelayChannels(client, deviceType, discoveryConfig);
+    // The relays of a shutter must never be switched independently
+    const channels = availableChannels.filter(channel => shutterRelays.indexOf(channel) < 0);
+    const light = await this.getLight(client, options, discoveryConfig);
+
+    const inputConfig: InputConfig = {
+      switches: discoveryConfig?.switches || [],
+      buttons: discoveryConfig?.buttons || []
+    };
+
+    const titles = new DeviceTitles(name.replace('.local', ''), options.title);
+    titles.update(discoveryConfig ? parseDeviceNames({
+      DeviceName: discoveryConfig.deviceName,
+      FriendlyName: discoveryConfig.friendlyNames
+    }) : await this.getDeviceNames(client));
+
+    // Explicitly configured channels are relays, the light comes after them
+    const lightChannels = discoveryConfig ? getLightChannels(discoveryConfig) : (options.channels ? [] : undefined);
+    const capabilities = getCapabilities(channels, light, lightChannels);
+
+    if (light.lightType == LightType.ColorTemperature || light.lightType == LightType.Rgbcct) {
+      capabilities.ctRange = await this.getCtRange(client, options);
+    }
+    const hasPower = capabilities.relays.length > 0 || capabilities.lights.length > 0;
+
+    if (hasPower || shutters.length == 0 || readings.some(isSensorReading)) {
+      debug(`Found ${capabilities.relays.length} relays and ${capabilities.lights.length} lights of type ${LightType[light.lightType]} (${light.lightMode})`);
+      await this.energyLoaded;
+      const device = new TasmotaDevice(this, id, options, titles, client, readings, capabilities, inputConfig, this.energyStore.getHistory(id));
+      this.addDevice(device, options, titles, topic);
+    }
+
+    for (const shutter of shutters) {
+      debug(`Found shutter ${shutter.index} using relays ${shutter.relays}`);
+      const shutterDevice = new ShutterDevice(this, `${id}-shutter${shutter.index}`, client, shutter);
+      this.addDevice(shutterDevice, options, titles, topic, ` Shutter ${shutter.index}`);
+    }
+  }
+
+  private addDevice(device: GatewayDevice, options: DeviceOptions, titles: DeviceTitles, topic?: string, titleSuffix = '') {
+    bindTitles(this, device, titles, titleSuffix);
+    this.handleDeviceAdded(device);
+    this.startUpdates(device, options, titles, topic);
+  }
+
+  private async getDeviceNames(client: TasmotaClient) {
+    try {
+      return await client.getDeviceNames();
+    } catch (e) {
+      debug(`Could not get names of ${client.host}: ${e}`);
+    }
+
+    return parseDeviceNames(undefined);
+  }
+
+  private async getMac(client: TasmotaClient): Promise<string | undefined> {
+    try {
+      const status = await client.getNetworkStatus();
+      return status?.mac;
+    } catch (e) {
+      debug(`Could not get mac address of ${client.host}: ${e}`);
+    }
+
+    return undefined;
+  }
+
+  private async updateHost(client: TasmotaClient, host: string, mac?: string) {
+    if (!shouldUpdateHost(client.host, host)) {
+      return;
+    }
+
+    debug(`Tasmota ${mac} moved from ${client.host} to ${host}`);
+    client.host = host;
+
+    if (mac) {
+      try {
+        await this.updateConfiguredHost(mac, host);
+      } catch (e) {
+        console.warn(`Could not update the host of ${mac} in the config: ${e}`);
+      }
+    }
+  }
+
+  private async updateConfiguredHost(mac: string, host: string) {
+    const db = new Database(this.manifest.name);
+    await db.open();
+    const config = await db.loadConfig();
+    const device = (config.devices || []).find((device: any) => normalizeMac(device.mac) === mac);
+
+    if (device) {
+      const [hostname, port] = host.split(':');
+      device.hostname = hostname;
+
+      if (port && port !== '80') {
+        device.port = parseInt(port);
+      } else {
+        delete device.port;
+      }
+
+      await db.saveConfig(config);
+    }
+  }
+
+  private async getRelayChannels(client: TasmotaClient, deviceType: DeviceType, discoveryConfig?: DiscoveryConfig): Promise<number[]> {
+    if (deviceType !== 'auto' && deviceType !== 'plug') {
+      return [];
+    }
+
+    const channels = discoveryConfig ? getRelayChannels(discoveryConfig) : await OnOffProperty.getAvailableChannels(client);
+
+    // Devices which are configured as plug always have at least one relay
+    return deviceType === 'plug' && channels.length == 0 ? [1] : channels;
+  }
+
+  private async getLight(client: TasmotaClient, options: DeviceOptions, discoveryConfig?: DiscoveryConfig): Promise<LightInfo> {
+    const lightTypeOverride = getLightTypeOverride(options.deviceType);
+    let light: LightInfo;
+
+    if (lightTypeOverride !== undefined) {
+      light = lightInfoFromType(lightTypeOverride);
+    } else if (discoveryConfig) {
+      light = lightInfoFromDiscovery(discoveryConfig);
+    } else {
+      light = await this.detectLight(client);
+    }
+
+    if (options.lightMode !== 'auto' && light.lightType != LightType.None) {
+      debug(`Using light mode ${options.lightMode} instead of ${light.lightMode}`);
+      light.lightMode = options.lightMode;
+    }
+
+    return light;
+  }
+
+  private async getCtRange(client: TasmotaClient, options: DeviceOptions): Promise<CtRange> {
+    let range = DEFAULT_CT_RANGE;
+
+    try {
+      range = await client.ctRange() || DEFAULT_CT_RANGE;
+    } catch (e) {
+      debug(`Could not get color temperature range of ${client.host}: ${e}`);
+    }
+
+    // The configured limits take precedence
+    return ctRangeFromKelvin(options.minColorTemperature, options.maxColorTemperature, range);
+  }
+
+  private async detectLight(client: TasmotaClient): Promise<LightInfo> {
+    try {
+      // Status 11 reports the state of every light channel
+      const result = await client.status(11);
+      return detectLight(result?.StatusSTS);
+    } catch (e) {
+      if (e instanceof CommandRejectedError) {
+        return lightInfoFromType(LightType.None);
+      }
+
+      throw e;
+    }
+  }
+
+  private async getShutters(client: TasmotaClient): Promise<ShutterConfig[]> {
+    try {
+      const result = await client.status(13);
+      return parseStatusSht(result?.StatusSHT);
+    } catch (e) {
+      debug(`Could not get shutters of ${client.host}: ${e}`);
+    }
+
+    return [];
+  }
+
+  private async getTopic(client: TasmotaClient): Promise<string | undefined> {
+    try {
+      const result = await client.query('Topic');
+      return result?.Topic;
+    } catch (e) {
+      console.warn(`Could not get mqtt topic of ${client.host}: ${e}`);
+    }
+
+    return undefined;
+  }
+
+  private startUpdates(device: GatewayDevice, options: DeviceOptions, titles: DeviceTitles, topic?: string) {
+    if (this.mqttClient && topic) {
+      this.mqttClient.subscribe(topic, (_prefix, command, payload) => this.handleMessage(device, titles, topic, command, payload));
+      // Request the current state, the response arrives as a regular RESULT message
+      this.mqttClient.publish(topic, 'State');
+      this.mqttClient.publish(topic, 'Status', '10');
+    } else {
+      device.startPolling(Math.max(options.pollInterval, 500));
+    }
+  }
+
+  private handleMessage(device: GatewayDevice, titles: DeviceTitles, topic: string, command: string, payload: any) {
+    switch (command) {
+      case 'LWT':
+        // The broker publishes Offline as last will if the device disconnects
+        debug(`${device.name} is ${payload}`);
+        availabilityListener(device)(payload === 'Online');
+
+        if (payload === 'Online') {
+          this.mqttClient?.publish(topic, 'State');
+        }
+        break;
+      case 'STATE':
+      case 'RESULT':
+        // Renames on the device are published as result of the DeviceName and FriendlyName commands
+        titles.update(parseDeviceNames(payload));
+        device.handleState(payload);
+        break;
+      case 'STATUS11':
+        device.handleState(payload?.StatusSTS);
+        break;
+      case 'SENSOR':
+        device.handleSensor(payload);
+        break;
+      case 'STATUS8':
+      case 'STATUS10':
+        device.handleSensor(payload?.StatusSNS);
+        break;
+    }
   }
 
   public cancelPairing() {
@@ -0,0 +1,180 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { MockTasmotaClient } from './mock-tasmota-client';
+import { AuthenticationError, CommandRejectedError, InvalidValueError, UnreachableError } from './errors';
+import { configureRequests } from './api';
+import { expect } from 'chai';
+import 'mocha';
+
+async function expectRejection(promise: Promise<any>): Promise<any> {
+    try {
+        await promise;
+    } catch (e) {
+        return e;
+    }
+
+    throw new Error('Expected the promise to be rejected');
+}
+
+describe('Tasmota client', () => {
+    it('should build the power commands', async () => {
+        const client = new MockTasmotaClient();
+        await client.power('', true);
+        await client.power(2, false);
+        await client.power('0', 'TOGGLE');
+        expect(client.commands).to.deep.equal(['Power ON', 'Power2 OFF', 'Power0 TOGGLE']);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should build the light commands', async () => {
+        const client = new MockTasmotaClient();
+        await client.dimmer(50);
+        await client.color('#ff0000');
+        await client.ct(153);
+        await client.hsbColor(120, 50);
+        await client.hsbColor(120, 50, 30);
+        await client.white(40);
+        await client.dimmer(20, 2);
+        await client.channel(2, 30);
+        await client.fade(true);
+        await client.speed(10);
+        await client.scheme(1);
+        await client.status(11);
+        await client.status();
+        expect(client.commands).to.deep.equal(['Dimmer 50', 'Color #ff0000', 'CT 153', 'Backlog HSBColor1 120; HSBColor2 50', 'HSBColor 120,50,30', 'White 40', 'Dimmer2 20', 'Channel2 30', 'Fade ON', 'Speed 10', 'Scheme 1', 'Status 11', 'Status']);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should reject invalid values without sending them', async () => {
+        const client = new MockTasmotaClient();
+        expect(await expectRejection(client.dimmer(101))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.dimmer(12.5))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.ct(100))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.color('red'))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.power('1; Restart', true))).to.be.instanceOf(InvalidValueError);
+        expect(client.commands).to.have.length(0);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should return the response of the device', async () => {
+        const client = new MockTasmotaClient();
+        client.respond('Status 11', { StatusSTS: { POWER: 'ON', Dimmer: 40 } });
+        client.respond('Dimmer', { POWER: 'ON', Dimmer: 60 });
+        expect(await client.status(11)).to.deep.equal({ StatusSTS: { POWER: 'ON', Dimmer: 40 } });
+        expect(await client.dimmer(60)).to.deep.equal({ POWER: 'ON', Dimmer: 60 });
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should validate the response of the device', async () => {
+        const client = new MockTasmotaClient();
+        client.respond('Foo', { Command: 'Unknown' });
+        client.respond('Power', { WARNING: 'Need user=<username>&password=<password>' });
+        expect(await expectRejection(client.send('Foo'))).to.be.instanceOf(CommandRejectedError);
+        expect(await expectRejection(client.power('', true))).to.be.instanceOf(AuthenticationError);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should only retry reads', async () => {
+        configureRequests({ retries: 2 });
+        const client = new MockTasmotaClient();
+        client.failWith(new UnreachableError('mock', 'timeout'));
+        expect(await expectRejection(client.status(0))).to.be.instanceOf(UnreachableError);
+        expect(client.commands).to.deep.equal(['Status 0', 'Status 0', 'Status 0']);
+
+        client.commands = [];
+        expect(await expectRejection(client.power('', true))).to.be.instanceOf(UnreachableError);
+        expect(client.commands).to.deep.equal(['Power ON']);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should parse the device status', async () => {
+        const client = new MockTasmotaClient();
+
+        client.respond('Status 0', {
+            StatusSTS: { POWER: 'OFF' },
+            StatusSNS: { ENERGY: { Power: 12 } }
+        });
+
+        const {
+            state,
+            readings
+        } = await client.getDeviceStatus();
+
+        expect(state).to.deep.equal({ POWER: 'OFF' });
+        expect(readings).to.deep.equal([{ sensor: 'ENERGY', field: 'Power', type: 'power', value: 12, unit: 'W' }]);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should query the mac address', async () => {
+        const client = new MockTasmotaClient();
+
+        client.respond('Status 5', {
+            StatusNET: { Hostname: 'plug', IPAddress: '192.168.0.42', Mac: '60:01:94:AB:CD:EF' }
+        });
+
+        const status = await client.getNetworkStatus();
+
+        expect(client.commands).to.deep.equal(['Status 5']);
+        expect(status?.mac).to.equal('600194ABCDEF');
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should query the names', async () => {
+        const client = new MockTasmotaClient();
+
+        client.respond('Status', {
+            Status: { DeviceName: 'Kitchen', FriendlyName: ['Kettle', 'Toaster'], Topic: 'kitchen' }
+        });
+
+        expect(await client.getDeviceNames()).to.deep.equal({
+            deviceName: 'Kitchen',
+            friendlyNames: ['Kettle', 'Toaster']
+        });
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should query the color temperature range', async () => {
+        const client = new MockTasmotaClient();
+        client.respond('CTRange', { CTRange: '200,454' });
+        expect(await client.ctRange()).to.deep.equal({ min: 200, max: 454 });
+
+        const oldClient = new MockTasmotaClient();
+        oldClient.respond('CTRange', { Command: 'Unknown' });
+        expect(await oldClient.ctRange()).to.be.undefined;
+
+        await client.ct(454, { min: 200, max: 454 });
+        expect(await expectRejection(client.ct(500, { min: 200, max: 454 }))).to.be.instanceOf(InvalidValueError);
+    });
+});
+
+describe('Tasmota client', () => {
+    it('should build the energy commands', async () => {
+        const client = new MockTasmotaClient();
+        await client.powerSet(60);
+        await client.voltageSet(230.5);
+        await client.currentSet(0.261);
+        await client.energyReset('yesterday');
+        expect(client.commands).to.deep.equal(['PowerSet 60', 'VoltageSet 230.5', 'CurrentSet 261', 'EnergyReset2 0']);
+
+        client.commands = [];
+        expect(await expectRejection(client.powerSet(0))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.currentSet(NaN))).to.be.instanceOf(InvalidValueError);
+        expect(await expectRejection(client.energyReset('week' as any))).to.be.instanceOf(InvalidValueError);
+        expect(client.commands).to.have.length(0);
+    });
+});
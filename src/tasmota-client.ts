@@ -0,0 +1,331 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Agent } from 'http';
+import { authConfig, DEFAULT_USERNAME, getRequestOptions, request, withRetries } from './api';
+import { AuthenticationError, checkCommandResult, CommandRejectedError, InvalidValueError, isAuthenticationWarning, parseCommandResponse, UnreachableError } from './errors';
+import { TasmotaMqttClient } from './mqtt-client';
+import { parse } from './table-parser';
+import { fromTable, parseStatusSns, Reading } from './telemetry';
+import { addSecret, debug } from './logger';
+import { NetworkStatus, parseStatusNet } from './device-identity';
+import { DeviceNames, parseDeviceNames } from './device-names';
+import { CtRange, DEFAULT_CT_RANGE, parseCtRange } from './ct-conversion';
+
+export type PowerState = boolean | 'TOGGLE';
+
+/**
+ * Basic auth is enough for recent firmwares, older ones only accept the credentials as query parameters.
+ * Auto starts with basic auth and switches to query parameters if the device asks for them.
+ */
+export type AuthMode = 'auto' | 'basic' | 'query';
+
+export type EnergyCounter = 'today' | 'yesterday' | 'total';
+
+// The index of the counter in EnergyReset<x>
+const ENERGY_COUNTERS: { [counter: string]: number } = {
+    today: 1,
+    yesterday: 2,
+    total: 3
+};
+
+export interface Credentials {
+    username?: string,
+    password?: string,
+    authMode?: AuthMode
+}
+
+export interface DeviceStatus {
+    state: any,
+    readings: Reading[],
+    names: DeviceNames
+}
+
+export class TasmotaClient {
+    // The web server of tasmota only handles one connection at a time
+    private agent = new Agent({
+        keepAlive: true,
+        maxSockets: 1
+    });
+
+    private mqtt?: {
+        client: TasmotaMqttClient,
+        topic: string
+    };
+
+    private useQuery: boolean;
+
+    constructor(public host: string, private credentials: Credentials = {}) {
+        addSecret(credentials.password);
+        this.useQuery = credentials.authMode === 'query';
+    }
+
+    public useMqtt(client: TasmotaMqttClient, topic: string) {
+        this.mqtt = {
+            client,
+            topic
+        };
+    }
+
+    /**
+     * Executes a command exactly once, use it for everything which changes the state of the device.
+     */
+    public async send(command: string): Promise<any> {
+        return checkCommandResult(this.host, command, await this.execute(command));
+    }
+
+    /**
+     * Reads are idempotent and therefore retried if the device did not respond.
+     */
+    public async query(command: string): Promise<any> {
+        return withRetries(`${command} on ${this.host}`, () => this.send(command));
+    }
+
+    public async power(channel: number | string, state: PowerState): Promise<any> {
+        if (!/^\d*$/.test(`${channel}`)) {
+            throw new InvalidValueError(this.host, 'channel', channel);
+        }
+
+        const value = state === 'TOGGLE' ? state : state ? 'ON' : 'OFF';
+
+        return this.send(`Power${channel} ${value}`);
+    }
+
+    /**
+     * @param index selects the color (1) or the white (2) channels if they are split (SetOption37)
+     */
+    public async dimmer(value: number, index?: number): Promise<any> {
+        return this.send(`Dimmer${index === undefined ? '' : this.checkRange('dimmer index', index, 1, 2)} ${this.checkRange('dimmer', value, 0, 100)}`);
+    }
+
+    /**
+     * Sets a single channel of a light whose channels are split (SetOption68).
+     */
+    public async channel(index: number, value: number): Promise<any> {
+        return this.send(`Channel${this.checkRange('channel', index, 1, 5)} ${this.checkRange('channel value', value, 0, 100)}`);
+    }
+
+    public async color(hex: string): Promise<any> {
+        // Every channel is represented by two hex chars
+        if (!/^#?([0-9a-f]{2}){1,5}$/i.test(hex)) {
+            throw new InvalidValueError(this.host, 'color', hex);
+        }
+
+        return this.send(`Color ${hex}`);
+    }
+
+    /**
+     * Sets the color without changing the brightness unless it is given.
+     */
+    public async hsbColor(hue: number, saturation: number, brightness?: number): Promise<any> {
+        const h = this.checkRange('hue', hue, 0, 360);
+        const s = this.checkRange('saturation', saturation, 0, 100);
+
+        if (brightness === undefined) {
+            return this.send(`Backlog HSBColor1 ${h}; HSBColor2 ${s}`);
+        }
+
+        return this.send(`HSBColor ${h},${s},${this.checkRange('brightness', brightness, 0, 100)}`);
+    }
+
+    public async white(value: number): Promise<any> {
+        return this.send(`White ${this.checkRange('white', value, 0, 100)}`);
+    }
+
+    public async ct(mireds: number, range = DEFAULT_CT_RANGE): Promise<any> {
+        return this.send(`CT ${this.checkRange('color temperature', mireds, range.min, range.max)}`);
+    }
+
+    /**
+     * Returns the color temperature range of the light or undefined if the firmware does not support it.
+     */
+    public async ctRange(): Promise<CtRange | undefined> {
+        try {
+            const json = await this.query('CTRange');
+            return parseCtRange(json?.CTRange);
+        } catch (e) {
+            if (e instanceof CommandRejectedError) {
+                return undefined;
+            }
+
+            throw e;
+        }
+    }
+
+    public async fade(enabled: boolean): Promise<any> {
+        return this.send(`Fade ${enabled ? 'ON' : 'OFF'}`);
+    }
+
+    public async speed(value: number): Promise<any> {
+        return this.send(`Speed ${this.checkRange('speed', value, 1, 40)}`);
+    }
+
+    public async scheme(value: number): Promise<any> {
+        return this.send(`Scheme ${this.checkRange('scheme', value, 0, 4)}`);
+    }
+
+    /**
+     * Calibrates the power measurement against a known resistive load.
+     */
+    public async powerSet(watts: number): Promise<any> {
+        return this.send(`PowerSet ${this.checkPositive('power', watts)}`);
+    }
+
+    public async voltageSet(volts: number): Promise<any> {
+        return this.send(`VoltageSet ${this.checkPositive('voltage', volts)}`);
+    }
+
+    public async currentSet(amperes: number): Promise<any> {
+        // CurrentSet expects milliamperes
+        return this.send(`CurrentSet ${Math.round(this.checkPositive('current', amperes) * 10000) / 10}`);
+    }
+
+    public async energyReset(counter: EnergyCounter): Promise<any> {
+        const index = ENERGY_COUNTERS[counter];
+
+        if (!index) {
+            throw new InvalidValueError(this.host, 'energy counter', counter);
+        }
+
+        return this.send(`EnergyReset${index} 0`);
+    }
+
+    public async status(n?: number): Promise<any> {
+        return this.query(n === undefined ? 'Status' : `Status ${n}`);
+    }
+
+    public async getNetworkStatus(): Promise<NetworkStatus | undefined> {
+        const json = await this.status(5);
+        return parseStatusNet(json?.StatusNET);
+    }
+
+    public async getDeviceNames(): Promise<DeviceNames> {
+        const json = await this.status();
+        return parseDeviceNames(json?.Status);
+    }
+
+    public async getPage(path = ''): Promise<string> {
+        const response = await request(this.host, `http://${this.host}${path}`, this.getHeaders(), this.agent);
+        return response.text();
+    }
+
+    public async getData() {
+        return withRetries(`web ui of ${this.host}`, async () => parse(await this.getPage('/?m=1')));
+    }
+
+    public async getTelemetry(commands = ['Status 10', 'Status 8']): Promise<Reading[]> {
+        for (const command of commands) {
+            try {
+                const json = await this.query(command);
+
+                if (json?.StatusSNS) {
+                    return parseStatusSns(json.StatusSNS);
+                }
+
+                debug(`${command} returned no sensor data: ${JSON.stringify(json)}`);
+            } catch (e) {
+                debug(`Could not get sensor data with ${command}: ${e}`);
+            }
+        }
+
+        debug('Falling back to the web ui');
+
+        return fromTable(await this.getData());
+    }
+
+    public async getDeviceStatus(): Promise<DeviceStatus> {
+        // Status 0 contains the state and the sensor data in a single response
+        const json = await this.status(0);
+
+        if (json?.StatusSNS) {
+            return {
+                state: json.StatusSTS,
+                readings: parseStatusSns(json.StatusSNS),
+                names: parseDeviceNames(json.Status)
+            };
+        }
+
+        debug('Status 0 returned no sensor data, falling back to the web ui');
+
+        return {
+            state: json?.StatusSTS,
+            readings: fromTable(await this.getData()),
+            names: parseDeviceNames(json?.Status)
+        };
+    }
+
+    protected async execute(command: string): Promise<any> {
+        if (this.mqtt) {
+            const [name, ...args] = command.split(' ');
+
+            try {
+                return await this.mqtt.client.request(this.mqtt.topic, name, args.join(' '), getRequestOptions().timeoutMs);
+            } catch (e) {
+                throw new UnreachableError(this.host, `${e}`);
+            }
+        }
+
+        try {
+            const result = await this.request(command);
+
+            if (!this.canSwitchToQuery() || !isAuthenticationWarning(result)) {
+                return result;
+            }
+        } catch (e) {
+            if (!this.canSwitchToQuery() || !(e instanceof AuthenticationError)) {
+                throw e;
+            }
+        }
+
+        debug(`${this.host} expects the credentials as query parameters`);
+        this.useQuery = true;
+
+        return this.request(command);
+    }
+
+    private async request(command: string): Promise<any> {
+        const {
+            username,
+            password
+        } = this.credentials;
+
+        const query = this.useQuery ? `user=${encodeURIComponent(username || DEFAULT_USERNAME)}&password=${encodeURIComponent(password || '')}&` : '';
+        const response = await request(this.host, `http://${this.host}/cm?${query}cmnd=${encodeURIComponent(command)}`, this.getHeaders(), this.agent);
+
+        return parseCommandResponse(this.host, command, await response.text());
+    }
+
+    private canSwitchToQuery() {
+        const {
+            password,
+            authMode
+        } = this.credentials;
+
+        return !this.useQuery && !!password && (authMode || 'auto') === 'auto';
+    }
+
+    private getHeaders() {
+        return authConfig(this.credentials.username, this.credentials.password).headers;
+    }
+
+    private checkPositive(name: string, value: number) {
+        if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+            throw new InvalidValueError(this.host, name, value);
+        }
+
+        return value;
+    }
+
+    private checkRange(name: string, value: number, minimum: number, maximum: number) {
+        if (!Number.isInteger(value) || value < minimum || value > maximum) {
+            throw new InvalidValueError(this.host, name, value);
+        }
+
+        return value;
+    }
+}
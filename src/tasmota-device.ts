@@ -0,0 +1,534 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Action, Adapter, Device, Event, Property } from 'gateway-addon';
+import { availabilityListener } from './availability';
+import { PollScheduler } from './poll-scheduler';
+import { findPhaseReadings, findReading, getSensorCapabilities, isLevelReading, isSensorReading, parseStatusSns, Reading, ReadingType } from './telemetry';
+import { SensorProperty } from './sensor-property';
+import { InputConfig, Inputs } from './inputs';
+import { addCommandAction, addDeviceActions, addEnergyActions, addTransitionAction, performCommandAction, performDeviceAction, performEnergyAction, performTransitionAction } from './device-actions';
+import { CommandRejectedError, logError } from './errors';
+import { debug } from './logger';
+import { DeviceOptions } from './device-options';
+import { TasmotaClient } from './tasmota-client';
+import { DeviceTitles } from './device-names';
+import { Capabilities, LightMode } from './capabilities';
+import { LightType } from './discovery';
+import { PollingProperty } from './polling-property';
+import { BrightnessProperty } from './brightness-property';
+import { ColorProperty } from './color-property';
+import { ColorTemperatureProperty } from './color-temperature-property';
+import { ColorModeProperty } from './color-mode-property';
+import { WhiteProperty } from './white-property';
+import { CtRange, DEFAULT_CT_RANGE } from './ct-conversion';
+import { FadeProperty } from './fade-property';
+import { SpeedProperty } from './speed-property';
+import { SchemeProperty } from './scheme-property';
+import { combinePowerStates, readPowerState } from './power-state';
+import { ENERGY_PROPERTIES, EnergyProperty, isPhaseType } from './energy-property';
+import { EnergyHistory } from './energy-history';
+import { PowerMonitor, PowerThresholds } from './power-thresholds';
+import { PowerTimer } from './power-timer';
+
+export class OnOffProperty extends Property {
+    private lastState?: boolean;
+
+    constructor(private device: Device, id: string, title: string, private client: TasmotaClient, private channel: string, private powerTimer: PowerTimer) {
+        super(device, id, {
+            '@type': 'OnOffProperty',
+            type: 'boolean',
+            title,
+            description: 'Whether the device is on or off'
+        });
+    }
+
+    async setValue(value: boolean) {
+        try {
+            debug(`Set value of ${this.device.name} / ${this.title} to ${value}`);
+            await super.setValue(value);
+            // A manual switch overrides a running onFor action
+            this.powerTimer.cancel(this.channel);
+            await this.client.power(this.channel, value);
+        } catch (e) {
+            logError(`Could not set value of ${this.device.name} / ${this.title}`, e);
+        }
+    }
+
+    setTitle(title: string) {
+        this.title = title;
+    }
+
+    getState(): boolean | undefined {
+        return this.lastState;
+    }
+
+    onState(state: any) {
+        this.setState(readPowerState(state, this.channel));
+    }
+
+    setState(value?: boolean) {
+        if (value !== undefined && this.lastState != value) {
+            this.lastState = value;
+            this.setCachedValueAndNotify(value);
+            debug(`Value of ${this.device.name} / ${this.title} changed to ${value}`);
+        }
+    }
+
+    static async getAvailableChannels(client: TasmotaClient) {
+        const channels: number[] = [];
+
+        for (let i = 1; i < 10; i++) {
+            if (await OnOffProperty.isAvailable(client, i)) {
+                channels.push(i);
+            }
+        }
+
+        return channels;
+    }
+
+    static async isAvailable(client: TasmotaClient, channel: number) {
+        const command = `POWER${channel}`;
+        let json: any;
+
+        try {
+            json = await client.query(command);
+        } catch (e) {
+            if (e instanceof CommandRejectedError) {
+                debug(`Channel ${channel} not available: ${e.reason}`);
+                return false;
+            }
+
+            throw e;
+        }
+
+        // Devices with a single relay report the first channel as POWER
+        const status = json[command] ?? (channel === 1 ? json.POWER : undefined);
+        const available = status === 'ON' || status === 'OFF';
+
+        if (available) {
+            debug(`Detected channel ${channel}`);
+        } else {
+            debug(`Channel ${channel} not available: ${JSON.stringify(json)}`);
+        }
+
+        return available;
+    }
+}
+
+/**
+ * A single physical Tasmota with all of its relays, lights, sensors and energy readings.
+ */
+export class TasmotaDevice extends Device {
+    private onOffProperties: OnOffProperty[] = [];
+    // Switches all relays of a multi channel device
+    private allOnOffProperty?: OnOffProperty;
+    private relayOnOffProperties: OnOffProperty[] = [];
+    private lightProperties: PollingProperty<any>[] = [];
+    private energyProperties: EnergyProperty[] = [];
+    private costTodayProperty?: Property;
+    private costTotalProperty?: Property;
+    private energyTariff?: number;
+    private powerThresholds?: PowerThresholds;
+    private powerMonitor?: PowerMonitor;
+    private sensorProperties: SensorProperty[] = [];
+    private inputs: Inputs;
+    private scheduler: PollScheduler;
+    private powerTimer: PowerTimer;
+    private ctRange?: CtRange;
+
+    constructor(adapter: Adapter, id: string, options: DeviceOptions, private titles: DeviceTitles, private client: TasmotaClient, readings: Reading[], capabilities: Capabilities, inputConfig: InputConfig, private energyHistory: EnergyHistory) {
+        super(adapter, id);
+        this['@context'] = 'https://iot.mozilla.org/schemas/';
+        this['@type'] = [];
+        this.name = id;
+        this.powerTimer = new PowerTimer(client);
+
+        const {
+            relays,
+            lights
+        } = capabilities;
+
+        const channels = [...relays, ...lights];
+        const multiChannel = options.multiChannelRelay && relays.length > 0;
+        // A device with a single power channel does not need to address it
+        const singleChannel = channels.length == 1;
+
+        if (relays.length > 0) {
+            this['@type'].push('SmartPlug');
+            this.addRelayProperties(relays, multiChannel, singleChannel);
+        }
+
+        if (lights.length > 0) {
+            this['@type'].push('Light');
+
+            switch (capabilities.lightMode) {
+                case LightMode.Channels:
+                    this.addSplitLightProperties(lights);
+                    break;
+                case LightMode.RgbCw:
+                    this.addRgbCwLightProperties(capabilities, options);
+                    break;
+                default:
+                    this.addLightProperties(capabilities, options, singleChannel);
+                    break;
+            }
+
+            this.addTransitionProperties(capabilities);
+        }
+
+        debug(`Parsed readings: ${JSON.stringify(readings)}`);
+
+        this.addEnergyProperties(readings, options);
+
+        // Devices without power channels are sensors
+        if (options.temperatureSensor || channels.length == 0) {
+            const sensorCapabilities = getSensorCapabilities(readings);
+
+            for (const reading of readings.filter(isSensorReading)) {
+                const sensorProperty = new SensorProperty(this, reading, isLevelReading(reading, sensorCapabilities));
+                debug(`Creating property ${sensorProperty.name} for ${reading.sensor} ${reading.field}`);
+                this.sensorProperties.push(sensorProperty);
+                this.addProperty(sensorProperty);
+            }
+
+            this['@type'].push(...sensorCapabilities);
+        }
+
+        this.inputs = new Inputs(this, inputConfig, readings);
+        this['@type'].push(...this.inputs.getCapabilities());
+
+        if (channels.length > 0) {
+            addDeviceActions(this, multiChannel ? channels : []);
+        }
+
+        addCommandAction(this);
+
+        this.updatePowerProperties(readings);
+        this.scheduler = new PollScheduler(this.name, () => this.poll(), availabilityListener(this));
+    }
+
+    private addRelayProperties(relays: number[], multiChannel: boolean, singleChannel: boolean) {
+        if (multiChannel) {
+            const onOffProperty = new OnOffProperty(this, 'on', 'All', this.client, '0', this.powerTimer);
+            this.onOffProperties.push(onOffProperty);
+            this.addProperty(onOffProperty);
+            this.allOnOffProperty = onOffProperty;
+
+            for (const channel of relays) {
+                debug(`Creating property for channel ${channel}`);
+                this.relayOnOffProperties.push(this.addChannelProperty(`on${channel}`, channel, `${channel}`, `Channel ${channel}`));
+            }
+        } else {
+            const onOffProperty = new OnOffProperty(this, 'on', 'On', this.client, singleChannel ? '' : `${relays[0]}`, this.powerTimer);
+            this.onOffProperties.push(onOffProperty);
+            this.addProperty(onOffProperty);
+        }
+    }
+
+    private addLightProperties(capabilities: Capabilities, options: DeviceOptions, singleChannel: boolean) {
+        const {
+            relays,
+            lights: [channel],
+            lightType,
+            ctRange = DEFAULT_CT_RANGE
+        } = capabilities;
+
+        if (relays.length == 0) {
+            const onOffProperty = new OnOffProperty(this, 'on', 'On', this.client, singleChannel ? '' : `${channel}`, this.powerTimer);
+            this.onOffProperties.push(onOffProperty);
+            this.addProperty(onOffProperty);
+        } else {
+            // The light of a plug has its own power channel
+            this.addChannelProperty(`on${channel}`, channel, `${channel}`, 'Light');
+        }
+
+        this.addLightProperty(new BrightnessProperty(this, this.client));
+
+        switch (lightType) {
+            case LightType.ColorTemperature:
+                this.addLightProperty(new ColorTemperatureProperty(this, this.client, ctRange));
+                break;
+            case LightType.Rgb:
+                this.addLightProperty(new ColorProperty(this, this.client, options));
+                break;
+            case LightType.Rgbw:
+                this.addLightProperty(new ColorProperty(this, this.client, options));
+                this.addLightProperty(new WhiteProperty(this, this.client));
+                break;
+            case LightType.Rgbcct:
+                this.addLightProperty(new ColorProperty(this, this.client, options));
+
+                if (options.colorMode) {
+                    this.addLightProperty(new ColorTemperatureProperty(this, this.client, ctRange));
+                    this.addLightProperty(new ColorModeProperty(this));
+                }
+                break;
+        }
+    }
+
+    private addSplitLightProperties(lights: number[]) {
+        lights.forEach((channel, index) => {
+            debug(`Creating properties for light channel ${index + 1}`);
+            this.addChannelProperty(`on${channel}`, channel, `${channel}`, `Light ${index + 1}`);
+            this.addLightProperty(new BrightnessProperty(this, this.client, index + 1, 'Channel'));
+        });
+    }
+
+    private addRgbCwLightProperties(capabilities: Capabilities, options: DeviceOptions) {
+        const {
+            relays,
+            lights: [colorChannel, whiteChannel],
+            lightType,
+            ctRange = DEFAULT_CT_RANGE
+        } = capabilities;
+
+        if (relays.length == 0) {
+            const onOffProperty = new OnOffProperty(this, 'on', this.titles.getChannelTitle(colorChannel, 'Color'), this.client, `${colorChannel}`, this.powerTimer);
+            this.onOffProperties.push(onOffProperty);
+            this.addProperty(onOffProperty);
+        } else {
+            this.addChannelProperty(`on${colorChannel}`, colorChannel, `${colorChannel}`, 'Color');
+        }
+
+        // Dimmer1 controls the color channels, Dimmer2 the white channels
+        this.addLightProperty(new BrightnessProperty(this, this.client, 1, 'Dimmer'));
+        this.addLightProperty(new ColorProperty(this, this.client, options));
+        this.addChannelProperty(`on${whiteChannel}`, whiteChannel, `${whiteChannel}`, 'White');
+        this.addLightProperty(new BrightnessProperty(this, this.client, 2, 'Dimmer'));
+
+        if (lightType == LightType.Rgbcct) {
+            this.addLightProperty(new ColorTemperatureProperty(this, this.client, ctRange));
+        }
+    }
+
+    private addTransitionProperties(capabilities: Capabilities) {
+        const {
+            lightType,
+            lightMode,
+            ctRange = DEFAULT_CT_RANGE
+        } = capabilities;
+
+        const hasColor = lightType == LightType.Rgb || lightType == LightType.Rgbw || lightType == LightType.Rgbcct;
+        const hasCt = lightType == LightType.ColorTemperature || lightType == LightType.Rgbcct;
+
+        this.addLightProperty(new FadeProperty(this, this.client));
+        this.addLightProperty(new SpeedProperty(this, this.client));
+        this.addLightProperty(new SchemeProperty(this, this.client, hasColor));
+
+        // Transitions address the whole light which is not possible if its channels are split
+        if (lightMode == LightMode.Combined) {
+            this.ctRange = ctRange;
+            addTransitionAction(this, hasColor, hasCt ? ctRange : undefined);
+        }
+    }
+
+    private addEnergyProperties(readings: Reading[], options: DeviceOptions) {
+        for (const type of Object.keys(ENERGY_PROPERTIES) as ReadingType[]) {
+            if (findReading(readings, type)) {
+                this.addEnergyProperty(new EnergyProperty(this, type));
+            }
+
+            if (isPhaseType(type)) {
+                for (const reading of findPhaseReadings(readings, type)) {
+                    this.addEnergyProperty(new EnergyProperty(this, type, reading.phase));
+                }
+            }
+        }
+
+        if (findReading(readings, 'power')) {
+            this['@type'].push('EnergyMonitor');
+        }
+
+        if (this.energyProperties.length > 0) {
+            addEnergyActions(this, this.energyProperties.map(property => property.readingType));
+        }
+
+        const thresholds = options.powerThresholds;
+
+        if (thresholds && findReading(readings, thresholds.reading)) {
+            this.addPowerThresholds(thresholds);
+        }
+
+        if (findReading(readings, 'energyToday') && options.energyTariff !== undefined) {
+            this.energyTariff = options.energyTariff;
+            this.costTodayProperty = this.createCostProperty('costToday', 'Cost Today', options.currency);
+            this.costTotalProperty = this.createCostProperty('costTotal', 'Cost Total', options.currency);
+        }
+    }
+
+    private addPowerThresholds(thresholds: PowerThresholds) {
+        this.powerThresholds = thresholds;
+        this.powerMonitor = new PowerMonitor(thresholds);
+
+        this.addEvent('started', {
+            description: `The ${thresholds.reading} rose above the start threshold`,
+            type: 'number'
+        });
+
+        this.addEvent('finished', {
+            description: `The ${thresholds.reading} fell below the stop threshold`,
+            type: 'number'
+        });
+
+        this.addEvent('overload', {
+            description: `The ${thresholds.reading} exceeded the overload threshold`,
+            type: 'number'
+        });
+    }
+
+    private updatePowerThresholds(readings: Reading[]) {
+        if (!this.powerThresholds || !this.powerMonitor) {
+            return;
+        }
+
+        const reading = findReading(readings, this.powerThresholds.reading);
+
+        if (!reading) {
+            return;
+        }
+
+        for (const event of this.powerMonitor.update(reading.value)) {
+            debug(`${this.name} reports ${event} at ${reading.value} ${reading.unit}`);
+            this.eventNotify(new Event(this, event, reading.value));
+
+            if (event === 'overload' && this.powerThresholds.switchOffOnOverload) {
+                this.switchOff();
+            }
+        }
+    }
+
+    private switchOff() {
+        // The main property switches all relays of a multi channel device
+        const onOffProperty = this.onOffProperties.find(property => property.name === 'on');
+
+        if (onOffProperty) {
+            debug(`Switching ${this.name} off because of an overload`);
+            onOffProperty.setValue(false);
+        }
+    }
+
+    private addEnergyProperty(property: EnergyProperty) {
+        this.energyProperties.push(property);
+        this.addProperty(property);
+    }
+
+    private createCostProperty(id: string, title: string, currency?: string): Property {
+        const property = new Property(this, id, {
+            type: 'number',
+            unit: currency,
+            multipleOf: 0.01,
+            title,
+            readOnly: true
+        });
+
+        this.addProperty(property);
+
+        return property;
+    }
+
+    private updateCosts(readings: Reading[]) {
+        this.energyHistory.update(findReading(readings, 'energyToday')?.value, findReading(readings, 'energyYesterday')?.value);
+
+        const tariff = this.energyTariff;
+
+        if (tariff !== undefined) {
+            const cost = (energy: number) => Math.round(energy * tariff * 100) / 100;
+            this.costTodayProperty?.setCachedValueAndNotify(cost(this.energyHistory.getDay(new Date())));
+            this.costTotalProperty?.setCachedValueAndNotify(cost(this.energyHistory.getTotal()));
+        }
+    }
+
+    private addChannelProperty(id: string, channel: number, powerChannel: string, fallbackTitle: string): OnOffProperty {
+        const onOffProperty = new OnOffProperty(this, id, this.titles.getChannelTitle(channel, fallbackTitle), this.client, powerChannel, this.powerTimer);
+        this.onOffProperties.push(onOffProperty);
+        this.addProperty(onOffProperty);
+        this.titles.addListener(() => onOffProperty.setTitle(this.titles.getChannelTitle(channel, fallbackTitle)));
+
+        return onOffProperty;
+    }
+
+    private addLightProperty(property: PollingProperty<any>) {
+        this.lightProperties.push(property);
+        this.addProperty(property);
+    }
+
+    addProperty(property: Property) {
+        this.properties.set(property.name, property);
+    }
+
+    async performAction(action: Action) {
+        if (this.ctRange && await performTransitionAction(this.client, action, this.ctRange)) {
+            return;
+        }
+
+        if (this.energyProperties.length > 0) {
+            const readings = await performEnergyAction(this, this.client, action);
+
+            if (readings) {
+                this.updatePowerProperties(readings);
+                return;
+            }
+        }
+
+        if (this.onOffProperties.length == 0 || !await performDeviceAction(this.client, action, this.powerTimer)) {
+            await performCommandAction(this, this.client, action);
+        }
+    }
+
+    public startPolling(intervalMs: number) {
+        this.scheduler.start(intervalMs);
+    }
+
+    public handleState(state: any) {
+        this.powerTimer.onState(state);
+
+        for (const onOffProperty of this.onOffProperties) {
+            onOffProperty.onState(state);
+        }
+
+        this.allOnOffProperty?.setState(combinePowerStates(this.relayOnOffProperties.map(property => property.getState())));
+
+        for (const lightProperty of this.lightProperties) {
+            lightProperty.onState(state);
+        }
+
+        this.inputs.handleState(state);
+    }
+
+    public handleSensor(sensor: any) {
+        this.updatePowerProperties(parseStatusSns(sensor));
+    }
+
+    public async poll() {
+        const {
+            state,
+            readings,
+            names
+        } = await this.client.getDeviceStatus();
+
+        this.titles.update(names);
+        this.handleState(state);
+        this.updatePowerProperties(readings);
+    }
+
+    private updatePowerProperties(readings: Reading[]) {
+        for (const energyProperty of this.energyProperties) {
+            energyProperty.update(readings);
+        }
+
+        this.updateCosts(readings);
+        this.updatePowerThresholds(readings);
+
+        for (const sensorProperty of this.sensorProperties) {
+            sensorProperty.update(readings);
+        }
+
+        this.inputs.update(readings);
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { findPhaseReadings, findReading, fromTable, getSensorCapabilities, isLevelReading, isSensorReading, parseInputActions, parseStatusSns, sensorPropertyId } from './telemetry';
+import { parse } from './table-parser';
+import { expect } from 'chai';
+import 'mocha';
+
+describe('Telemetry', () => {
+    it('should not fail on missing sensor data', () => {
+        expect(parseStatusSns(undefined)).to.have.length(0);
+        expect(parseStatusSns('')).to.have.length(0);
+        expect(parseStatusSns({ Time: '2020-12-01T12:00:00' })).to.have.length(0);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should parse energy readings', () => {
+        const readings = parseStatusSns({
+            Time: '2020-12-01T12:00:00',
+            ENERGY: {
+                TotalStartTime: '2020-01-01T00:00:00',
+                Total: 12.386,
+                Yesterday: 0.87,
+                Today: 0.445,
+                Power: 75,
+                ApparentPower: 118,
+                ReactivePower: 91,
+                Factor: 0.63,
+                Voltage: 229,
+                Current: 0.516
+            }
+        });
+
+        expect(readings).to.have.length(9);
+        expect(findReading(readings, 'voltage')?.value).to.equal(229);
+        expect(findReading(readings, 'voltage')?.unit).to.equal('V');
+        expect(findReading(readings, 'current')?.value).to.equal(0.516);
+        expect(findReading(readings, 'power')?.value).to.equal(75);
+        expect(findReading(readings, 'powerFactor')?.value).to.equal(0.63);
+        expect(findReading(readings, 'powerFactor')?.unit).to.undefined;
+        expect(findReading(readings, 'energyTotal')?.value).to.equal(12.386);
+        expect(findReading(readings, 'energyTotal')?.sensor).to.equal('ENERGY');
+        expect(findReading(readings, 'energyTotal')?.field).to.equal('Total');
+    });
+});
+
+describe('Telemetry', () => {
+    it('should parse multi-phase energy readings', () => {
+        const readings = parseStatusSns({
+            ENERGY: {
+                Total: 120.5,
+                Today: 3.2,
+                Power: [100, 200.5, 0],
+                Voltage: [230, 231, 232],
+                Current: [0.1, 0.2, 0]
+            }
+        });
+
+        expect(findReading(readings, 'power')?.value).to.equal(300.5);
+        expect(findReading(readings, 'voltage')?.value).to.equal(231);
+        expect(findReading(readings, 'current')?.value).to.equal(0.3);
+        expect(findReading(readings, 'energyToday')?.value).to.equal(3.2);
+        expect(findPhaseReadings(readings, 'power').map(reading => reading.value)).to.deep.equal([100, 200.5, 0]);
+        expect(findPhaseReadings(readings, 'voltage').map(reading => reading.phase)).to.deep.equal([1, 2, 3]);
+        expect(findPhaseReadings(readings, 'energyToday')).to.have.length(0);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should parse climate sensors with their units', () => {
+        const readings = parseStatusSns({
+            Time: '2020-12-01T12:00:00',
+            BME280: {
+                Temperature: 71.2,
+                Humidity: 43.2,
+                DewPoint: 47.1,
+                Pressure: 29.17
+            },
+            PressureUnit: 'inHg',
+            TempUnit: 'F'
+        });
+
+        expect(readings).to.have.length(4);
+        expect(findReading(readings, 'temperature')?.sensor).to.equal('BME280');
+        expect(findReading(readings, 'temperature')?.unit).to.equal('°F');
+        expect(findReading(readings, 'dewPoint')?.unit).to.equal('°F');
+        expect(findReading(readings, 'humidity')?.unit).to.equal('%');
+        expect(findReading(readings, 'pressure')?.value).to.equal(29.17);
+        expect(findReading(readings, 'pressure')?.unit).to.equal('inHg');
+    });
+});
+
+describe('Telemetry', () => {
+    it('should keep the identity of multiple sensors', () => {
+        const readings = parseStatusSns({
+            'DS18B20-1': { Id: '01144A0CB2AA', Temperature: 21.5 },
+            'DS18B20-2': { Id: '0316A27946FF', Temperature: -3.1 },
+            TempUnit: 'C'
+        });
+
+        expect(readings).to.have.length(2);
+        expect(readings[0].sensor).to.equal('DS18B20-1');
+        expect(readings[0].value).to.equal(21.5);
+        expect(readings[0].unit).to.equal('°C');
+        expect(readings[1].sensor).to.equal('DS18B20-2');
+        expect(readings[1].value).to.equal(-3.1);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should fall back to the web ui table', () => {
+        const tableString = '{t}{s}Voltage{m}229 V{e}{s}BME280 Temperature{m}23.9°C{e}{s}BME280 Dew point{m}9.7°C{e}{s}BME280 Humidity{m}43.2%{e}{s}BME280 Pressure{m}987.9hPa{e}{t}ON';
+        const readings = fromTable(parse(tableString));
+        expect(readings).to.have.length(5);
+        expect(findReading(readings, 'voltage')?.value).to.equal(229);
+        expect(findReading(readings, 'temperature')?.sensor).to.equal('BME280 Temperature');
+        expect(findReading(readings, 'dewPoint')?.value).to.equal(9.7);
+        expect(findReading(readings, 'humidity')?.value).to.equal(43.2);
+        expect(findReading(readings, 'pressure')?.unit).to.equal('hPa');
+    });
+});
+
+describe('Telemetry', () => {
+    it('should derive stable property ids from the sensor name', () => {
+        const readings = parseStatusSns({
+            'DS18B20-1': { Temperature: 21.5 },
+            'SHT3X-0x45': { Temperature: 22.1, Humidity: 40.1, DewPoint: 8.0 },
+            ENERGY: { Power: 12 }
+        });
+
+        const ids = readings.filter(isSensorReading).map(sensorPropertyId);
+        expect(ids).to.deep.equal(['ds18b20-1-temperature', 'sht3x-0x45-temperature', 'sht3x-0x45-humidity', 'sht3x-0x45-dewpoint']);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should use the label of the web ui as property id', () => {
+        const readings = fromTable(parse('{t}{s}SI7021 Temperature{m}23.9°C{e}{s}Bath{m}34.5%{e}{t}OFF'));
+        expect(readings.map(sensorPropertyId)).to.deep.equal(['si7021-temperature', 'bath']);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should derive the sensor capabilities from the readings', () => {
+        const readings = parseStatusSns({
+            BME280: { Temperature: 21.5, Humidity: 40.1, DewPoint: 8.0, Pressure: 1013.2 },
+            SCD30: { CarbonDioxide: 812, eCO2: 790, Temperature: 22.0 },
+            ENERGY: { Power: 12 }
+        });
+
+        expect(getSensorCapabilities(readings)).to.deep.equal(['TemperatureSensor', 'HumiditySensor', 'BarometricPressureSensor', 'AirQualitySensor']);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should fall back to a multi level sensor', () => {
+        const readings = parseStatusSns({
+            BH1750: { Illuminance: 120 },
+            ENERGY: { Power: 12 }
+        });
+
+        expect(getSensorCapabilities(readings)).to.deep.equal(['MultiLevelSensor']);
+        expect(getSensorCapabilities(parseStatusSns({ ENERGY: { Power: 12 } }))).to.have.length(0);
+        expect(readings.map(reading => isLevelReading(reading, ['MultiLevelSensor']))).to.deep.equal([true, false]);
+        expect(isLevelReading(readings[0], ['TemperatureSensor'])).to.be.false;
+    });
+});
+
+describe('Telemetry', () => {
+    it('should parse switch states', () => {
+        const readings = parseStatusSns({
+            Switch1: 'ON',
+            Switch2: 'OFF',
+            Switch3: 'TOGGLE',
+            AM2301: { Temperature: 21.5, Humidity: 40.1 }
+        });
+
+        const switches = readings.filter(reading => reading.type === 'switch');
+        expect(switches).to.have.length(2);
+        expect(switches[0].sensor).to.equal('Switch1');
+        expect(switches[0].value).to.equal(1);
+        expect(switches[1].sensor).to.equal('Switch2');
+        expect(switches[1].value).to.equal(0);
+        expect(switches.filter(isSensorReading)).to.have.length(0);
+    });
+});
+
+describe('Telemetry', () => {
+    it('should parse the actions of decoupled inputs', () => {
+        const actions = parseInputActions({ Button1: { Action: 'DOUBLE' }, Switch2: { Action: 'ON' }, POWER: 'ON' });
+        expect(actions).to.deep.equal([{ input: 'Button1', action: 'DOUBLE' }, { input: 'Switch2', action: 'ON' }]);
+        expect(parseInputActions({ Switch1: 'ON' })).to.have.length(0);
+        expect(parseInputActions(undefined)).to.have.length(0);
+    });
+});
@@ -0,0 +1,327 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { DataResult } from './table-parser';
+
+export type ReadingType =
+    'voltage' |
+    'current' |
+    'power' |
+    'apparentPower' |
+    'reactivePower' |
+    'powerFactor' |
+    'energyToday' |
+    'energyYesterday' |
+    'energyTotal' |
+    'temperature' |
+    'humidity' |
+    'dewPoint' |
+    'pressure' |
+    'seaPressure' |
+    'illuminance' |
+    'gas' |
+    'co2' |
+    'tvoc' |
+    'distance' |
+    'switch';
+
+export interface Reading {
+    sensor: string,
+    field: string,
+    type: ReadingType,
+    value: number,
+    unit?: string,
+    // The phase of a multi-phase energy meter (starting with 1)
+    phase?: number
+}
+
+export const SENSOR_TYPES: ReadingType[] = [
+    'temperature',
+    'humidity',
+    'dewPoint',
+    'pressure',
+    'seaPressure',
+    'illuminance',
+    'gas',
+    'co2',
+    'tvoc',
+    'distance'
+];
+
+const SENSOR_CAPABILITIES: { [type: string]: string } = {
+    temperature: 'TemperatureSensor',
+    humidity: 'HumiditySensor',
+    pressure: 'BarometricPressureSensor',
+    co2: 'AirQualitySensor',
+    tvoc: 'AirQualitySensor'
+};
+
+interface FieldDescription {
+    type: ReadingType,
+    unit?: string
+}
+
+// The combined value of all phases is the average for these types and the sum for all others
+const AVERAGED_TYPES: ReadingType[] = [
+    'voltage',
+    'powerFactor'
+];
+
+const ENERGY_FIELDS: { [field: string]: FieldDescription } = {
+    Voltage: { type: 'voltage', unit: 'V' },
+    Current: { type: 'current', unit: 'A' },
+    Power: { type: 'power', unit: 'W' },
+    ApparentPower: { type: 'apparentPower', unit: 'VA' },
+    ReactivePower: { type: 'reactivePower', unit: 'VAr' },
+    Factor: { type: 'powerFactor' },
+    Today: { type: 'energyToday', unit: 'kWh' },
+    Yesterday: { type: 'energyYesterday', unit: 'kWh' },
+    Total: { type: 'energyTotal', unit: 'kWh' }
+};
+
+// Temperatures and pressures use the unit reported in TempUnit and PressureUnit
+const SENSOR_FIELDS: { [field: string]: FieldDescription } = {
+    Temperature: { type: 'temperature' },
+    Humidity: { type: 'humidity', unit: '%' },
+    DewPoint: { type: 'dewPoint' },
+    Pressure: { type: 'pressure' },
+    SeaPressure: { type: 'seaPressure' },
+    Illuminance: { type: 'illuminance', unit: 'lx' },
+    Gas: { type: 'gas', unit: 'kOhm' },
+    CarbonDioxide: { type: 'co2', unit: 'ppm' },
+    eCO2: { type: 'co2', unit: 'ppm' },
+    TVOC: { type: 'tvoc', unit: 'ppb' },
+    Distance: { type: 'distance', unit: 'cm' }
+};
+
+const TABLE_LABELS: { [label: string]: ReadingType } = {
+    'Voltage': 'voltage',
+    'Current': 'current',
+    'Power': 'power',
+    'Apparent Power': 'apparentPower',
+    'Reactive Power': 'reactivePower',
+    'Power Factor': 'powerFactor',
+    'Energy Today': 'energyToday',
+    'Energy Yesterday': 'energyYesterday',
+    'Energy Total': 'energyTotal'
+};
+
+export function parseStatusSns(sns: any): Reading[] {
+    const readings: Reading[] = [];
+
+    if (!sns || typeof sns !== 'object') {
+        return readings;
+    }
+
+    const temperatureUnit = `°${sns.TempUnit || 'C'}`;
+    const pressureUnit = sns.PressureUnit || 'hPa';
+
+    for (const [sensor, values] of Object.entries<any>(sns)) {
+        if (/^Switch\d+$/.test(sensor) && (values === 'ON' || values === 'OFF')) {
+            readings.push({
+                sensor,
+                field: sensor,
+                type: 'switch',
+                value: values === 'ON' ? 1 : 0
+            });
+
+            continue;
+        }
+
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            continue;
+        }
+
+        const fields = sensor === 'ENERGY' ? ENERGY_FIELDS : SENSOR_FIELDS;
+
+        for (const [field, value] of Object.entries(values)) {
+            const description = fields[field];
+
+            if (description && sensor === 'ENERGY' && isPhaseArray(value)) {
+                readings.push(...parsePhases(sensor, field, description, value));
+            } else if (description && typeof value === 'number') {
+                let unit = description.unit;
+
+                switch (description.type) {
+                    case 'temperature':
+                    case 'dewPoint':
+                        unit = temperatureUnit;
+                        break;
+                    case 'pressure':
+                    case 'seaPressure':
+                        unit = pressureUnit;
+                        break;
+                }
+
+                readings.push({
+                    sensor,
+                    field,
+                    type: description.type,
+                    value,
+                    unit
+                });
+            }
+        }
+    }
+
+    return readings;
+}
+
+function isPhaseArray(value: any): value is number[] {
+    return Array.isArray(value) && value.length > 0 && value.every(phase => typeof phase === 'number');
+}
+
+/**
+ * Multi-phase energy meters report an array with one value per phase.
+ */
+function parsePhases(sensor: string, field: string, description: FieldDescription, values: number[]): Reading[] {
+    const sum = values.reduce((a, b) => a + b, 0);
+    const combined = AVERAGED_TYPES.indexOf(description.type) > -1 ? sum / values.length : sum;
+
+    const reading: Reading = {
+        sensor,
+        field,
+        type: description.type,
+        // Avoid floating point artifacts like 0.30000000000000004
+        value: Math.round(combined * 1000) / 1000,
+        unit: description.unit
+    };
+
+    return [reading, ...values.map((value, index) => ({
+        ...reading,
+        value,
+        phase: index + 1
+    }))];
+}
+
+export function fromTable(data: DataResult): Reading[] {
+    const readings: Reading[] = [];
+
+    for (const [name, { value, symbol }] of Object.entries(data)) {
+        const type = getTableType(name, symbol);
+
+        if (type) {
+            readings.push({
+                sensor: name,
+                field: name,
+                type,
+                value,
+                unit: symbol
+            });
+        }
+    }
+
+    return readings;
+}
+
+function getTableType(name: string, symbol?: string): ReadingType | undefined {
+    const lowerName = name.toLowerCase();
+
+    if (TABLE_LABELS[name]) {
+        return TABLE_LABELS[name];
+    }
+
+    if (lowerName.indexOf('dew point') > -1) {
+        return 'dewPoint';
+    }
+
+    if (lowerName.indexOf('pressure') > -1) {
+        return 'pressure';
+    }
+
+    if (symbol == '°C' || symbol == '°F') {
+        return 'temperature';
+    }
+
+    if (symbol == '%') {
+        return 'humidity';
+    }
+
+    return undefined;
+}
+
+export function findReading(readings: Reading[], type: ReadingType): Reading | undefined {
+    return readings.find(reading => reading.type === type && reading.phase === undefined);
+}
+
+export function findPhaseReadings(readings: Reading[], type: ReadingType): Reading[] {
+    return readings.filter(reading => reading.type === type && reading.phase !== undefined);
+}
+
+export function sensorPropertyId(reading: Reading) {
+    const {
+        sensor,
+        field
+    } = reading;
+
+    // The web ui only knows a single label per reading
+    const name = sensor === field ? sensor : `${sensor}-${field}`;
+
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+export function isSensorReading(reading: Reading) {
+    return SENSOR_TYPES.indexOf(reading.type) > -1;
+}
+
+export function getSensorCapabilities(readings: Reading[]): string[] {
+    const capabilities: string[] = [];
+    let hasGenericReading = false;
+
+    for (const reading of readings.filter(isSensorReading)) {
+        const capability = SENSOR_CAPABILITIES[reading.type];
+
+        if (!capability) {
+            hasGenericReading = true;
+        } else if (capabilities.indexOf(capability) < 0) {
+            capabilities.push(capability);
+        }
+    }
+
+    if (hasGenericReading && capabilities.length == 0) {
+        capabilities.push('MultiLevelSensor');
+    }
+
+    return capabilities;
+}
+
+/**
+ * The multi level sensor capability requires its readings to be level properties.
+ * @param capabilities the result of getSensorCapabilities
+ */
+export function isLevelReading(reading: Reading, capabilities: string[]): boolean {
+    return capabilities.indexOf('MultiLevelSensor') > -1 && isSensorReading(reading) && !SENSOR_CAPABILITIES[reading.type];
+}
+
+export interface InputAction {
+    input: string,
+    action: string
+}
+
+export function parseInputActions(result: any): InputAction[] {
+    const actions: InputAction[] = [];
+
+    if (!result || typeof result !== 'object') {
+        return actions;
+    }
+
+    // Decoupled inputs report e.g. {"Button1":{"Action":"DOUBLE"}}
+    for (const [input, value] of Object.entries<any>(result)) {
+        if (/^(Switch|Button)\d+$/.test(input) && typeof value?.Action === 'string') {
+            actions.push({
+                input,
+                action: value.Action
+            });
+        }
+    }
+
+    return actions;
+}
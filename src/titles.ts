@@ -0,0 +1,25 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Adapter, Device } from 'gateway-addon';
+import { DeviceTitles } from './device-names';
+import { debug } from './logger';
+
+/**
+ * Titles the device after the Tasmota and announces it again whenever the Tasmota is renamed.
+ */
+export function bindTitles(adapter: Adapter, device: Device, titles: DeviceTitles, suffix = '') {
+    device.name = `${titles.getTitle()}${suffix}`;
+
+    titles.addListener(() => {
+        const title = `${titles.getTitle()}${suffix}`;
+        debug(`Renaming ${device.name} to ${title}`);
+        device.name = title;
+        adapter.handleDeviceAdded(device);
+    });
+}
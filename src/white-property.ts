@@ -0,0 +1,32 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.*
+ */
+
+'use strict';
+
+import { Device } from 'gateway-addon';
+import { TasmotaClient } from './tasmota-client';
+import { WritableProperty } from './writable-property';
+
+export class WhiteProperty extends WritableProperty<number> {
+    constructor(device: Device, client: TasmotaClient) {
+        super(device, 'white', {
+            '@type': 'LevelProperty',
+            type: 'integer',
+            title: 'White',
+            description: 'The brightness of the white channel',
+            unit: 'percent',
+            minimum: 0,
+            maximum: 100
+        }, async (value) => {
+            await client.white(value);
+        });
+    }
+    public onState(state: any) {
+        if (state?.White !== undefined) {
+            this.update(state.White);
+        }
+    }
+}
@@ -7,21 +7,22 @@
 'use strict';
 
 import { Device } from 'gateway-addon';
+import { logError } from './errors';
 import { debug } from './logger';
 import { PollingProperty } from './polling-property';
 
 export class WritableProperty<T> extends PollingProperty<T> {
-    constructor(private device: Device, name: string, propertyDescr: {}, private set: (value: T) => Promise<void>, poll: () => Promise<void>) {
-        super(device, name, propertyDescr, poll);
+    constructor(private device: Device, name: string, propertyDescr: {}, private set: (value: T) => Promise<void>) {
+        super(device, name, propertyDescr);
     }
     async setValue(value: T) {
         try {
             debug(`Set value of ${this.device.name} / ${this.title} to ${value}`);
             await super.setValue(value);
-            this.set(value);
+            await this.set(value);
         }
         catch (e) {
-            debug(`Could not set value: ${e}`);
+            logError(`Could not set value of ${this.device.name} / ${this.title}`, e);
         }
     }
 }